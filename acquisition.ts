@@ -0,0 +1,171 @@
+import type { Scale, FilterStage, FilterState, PlateConfig, LogEntry, SampleRing } from './types';
+import { createFilterState, runFilterChain } from './filters';
+import { createLogEntry } from './processing';
+
+/** Intervals longer than this are gaps in the data, not the sample rate. */
+const MAX_SAMPLE_INTERVAL_MS = 1000;
+const SAMPLE_INTERVAL_SMOOTHING = 0.05;
+
+/** Unfiltered processed value of a log entry, falling back to the processed value for older entries. */
+export const getUnfilteredValue = (entry: LogEntry, index: number): number | undefined =>
+    entry.unfilteredValues ? entry.unfilteredValues[index] : entry.processedValues[index];
+
+const createSampleRing = (capacity: number, channelCount: number, start: number = 0): SampleRing => ({
+    capacity,
+    channelCount,
+    timestamps: new Float64Array(capacity),
+    totalX: new Float64Array(capacity),
+    totalY: new Float64Array(capacity),
+    processed: new Float64Array(capacity * channelCount),
+    raw: new Float64Array(capacity * channelCount),
+    unfiltered: new Float64Array(capacity * channelCount),
+    start,
+    written: start,
+});
+
+const writeSample = (ring: SampleRing, entry: LogEntry) => {
+    const slot = ring.written % ring.capacity;
+    const offset = slot * ring.channelCount;
+    ring.timestamps[slot] = entry.timestamp;
+    ring.totalX[slot] = entry.totalX;
+    ring.totalY[slot] = entry.totalY;
+    for (let i = 0; i < ring.channelCount; i++) {
+        ring.processed[offset + i] = entry.processedValues[i];
+        ring.raw[offset + i] = entry.rawValues[i];
+        ring.unfiltered[offset + i] = getUnfilteredValue(entry, i);
+    }
+    ring.written++;
+};
+
+/**
+ * Reads samples back as log entries, from sample number `from` to the newest.
+ * Samples the ring no longer holds are skipped.
+ */
+const readSamples = (ring: SampleRing, from: number): LogEntry[] => {
+    const entries: LogEntry[] = [];
+    for (let n = Math.max(from, ring.start, ring.written - ring.capacity); n < ring.written; n++) {
+        const slot = n % ring.capacity;
+        const offset = slot * ring.channelCount;
+        entries.push({
+            timestamp: ring.timestamps[slot],
+            totalX: ring.totalX[slot],
+            totalY: ring.totalY[slot],
+            processedValues: Array.from(ring.processed.subarray(offset, offset + ring.channelCount)),
+            rawValues: Array.from(ring.raw.subarray(offset, offset + ring.channelCount)),
+            unfilteredValues: Array.from(ring.unfiltered.subarray(offset, offset + ring.channelCount)),
+        });
+    }
+    return entries;
+};
+
+/** Copies the newest samples into a ring of another capacity, keeping the sample numbering. */
+const resizeSampleRing = (ring: SampleRing, capacity: number): SampleRing => {
+    const entries = readSamples(ring, ring.written - capacity);
+    const resized = createSampleRing(capacity, ring.channelCount, ring.written - entries.length);
+    entries.forEach(entry => writeSample(resized, entry));
+    return resized;
+};
+
+/**
+ * Acquisition core: filters and processes readings, stores every sample once
+ * in a ring buffer and notifies subscribers of new samples at most every
+ * `notifyIntervalMs`. It holds no React state and touches no DOM, so the UI
+ * can render at its own pace and the core could move into a worker.
+ */
+export const createAcquisitionCore = (capacity: number, notifyIntervalMs: number) => {
+    let ring = createSampleRing(capacity, 0);
+    /** Latest reading per scale position; a channel missing from a sample keeps its last value. */
+    let rawValues: number[] = [];
+    let filteredValues: number[] = [];
+    /** Per scale id, the filter chain the state was built for and the state of each stage. */
+    const filterStates = new Map<number, { filters: FilterStage[]; states: FilterState[] }>();
+    /**
+     * Smoothed interval between samples per source, which the low-pass and
+     * notch filters need. Devices sending independently each have their own,
+     * as their samples interleave.
+     */
+    const timings = new Map<number, { lastTimestamp: number; intervalMs: number | null }>();
+    const listeners = new Set<() => void>();
+    let notifyTimeoutId: ReturnType<typeof setTimeout> | null = null;
+    let lastNotifiedAt = -Infinity;
+
+    const scheduleNotify = () => {
+        if (notifyTimeoutId !== null) return;
+        notifyTimeoutId = setTimeout(() => {
+            notifyTimeoutId = null;
+            lastNotifiedAt = performance.now();
+            listeners.forEach(listener => listener());
+        }, Math.max(0, lastNotifiedAt + notifyIntervalMs - performance.now()));
+    };
+
+    const toRateHz = (intervalMs: number | null) => intervalMs ? 1000 / intervalMs : null;
+
+    /** The lowest sample rate of any source, null until one is known. */
+    const getSampleRateHz = () => {
+        const rates = [...timings.values()].map(timing => toRateHz(timing.intervalMs)).filter((rate): rate is number => rate !== null);
+        return rates.length > 0 ? Math.min(...rates) : null;
+    };
+
+    /**
+     * Processes one sample with the given scale configuration and stores it.
+     * @param source Device the sample came from, when devices send independently.
+     * @returns The log entry written to the ring.
+     */
+    const ingest = (values: number[], timestamp: number, scales: Scale[], plate: PlateConfig, source: number = 0): LogEntry => {
+        const timing = timings.get(source);
+        const intervalMs = timing ? timestamp - timing.lastTimestamp : 0;
+        let smoothedMs = timing?.intervalMs ?? null;
+        if (intervalMs > 0 && intervalMs <= MAX_SAMPLE_INTERVAL_MS) {
+            smoothedMs = smoothedMs === null ? intervalMs : smoothedMs + SAMPLE_INTERVAL_SMOOTHING * (intervalMs - smoothedMs);
+        }
+        timings.set(source, { lastTimestamp: timestamp, intervalMs: smoothedMs });
+        const sampleRateHz = toRateHz(smoothedMs);
+
+        rawValues = scales.map((_, index) => Number.isFinite(values[index]) ? values[index] : rawValues[index] ?? 0);
+        filteredValues = scales.map((scale, index) => {
+            if (!Number.isFinite(values[index])) return filteredValues[index] ?? rawValues[index];
+            if (scale.filters.length === 0) return values[index];
+            let chain = filterStates.get(scale.id);
+            if (!chain || chain.filters !== scale.filters) {
+                chain = { filters: scale.filters, states: scale.filters.map(createFilterState) };
+                filterStates.set(scale.id, chain);
+            }
+            return runFilterChain(scale.filters, chain.states, values[index], Math.max(0, intervalMs) / 1000, sampleRateHz);
+        });
+
+        const entry = createLogEntry(timestamp, scales.map((scale, index) => ({ ...scale, rawValue: rawValues[index], filteredValue: filteredValues[index] })), plate);
+        if (ring.channelCount !== scales.length) ring = createSampleRing(ring.capacity, scales.length, ring.written);
+        writeSample(ring, entry);
+        scheduleNotify();
+        return entry;
+    };
+
+    return {
+        ingest,
+        getSampleRateHz,
+        /** Starts the filters and sample timing afresh, e.g. for a new source. */
+        resetFilters: () => {
+            filterStates.clear();
+            timings.clear();
+        },
+        /** Drops the buffered samples and latest readings; sample numbers keep counting. */
+        clear: () => {
+            ring = createSampleRing(ring.capacity, ring.channelCount, ring.written);
+            rawValues = [];
+            filteredValues = [];
+        },
+        setCapacity: (newCapacity: number) => {
+            ring = resizeSampleRing(ring, Math.max(1, newCapacity));
+        },
+        /** Number of the next sample, so a subscriber can ask for what it hasn't seen. */
+        getSampleCount: () => ring.written,
+        readSince: (from: number) => readSamples(ring, from),
+        getLatest: () => ({ rawValues, filteredValues }),
+        subscribe: (listener: () => void) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+};
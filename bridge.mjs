@@ -0,0 +1,263 @@
+#!/usr/bin/env node
+/**
+ * Serves load cell lines over WebSocket for the analyzer's network source.
+ *
+ * Every line from the source is sent as one text message; messages from the
+ * browser (device commands) are written back to the serial port.
+ *
+ *   node bridge.mjs --serial /dev/ttyUSB0 --baud 115200
+ *   node bridge.mjs --replay capture.txt --rate 50
+ *
+ * Browser pages may only connect from a local origin or one given with
+ * --allow-origin. Listening beyond this machine needs --token, which clients
+ * pass as `?token=` in the URL, since anything on the network could connect.
+ *
+ * Serial mode needs the `serialport` package (`npm install serialport`).
+ * Replay mode has no dependencies, which makes it a stand-in device for
+ * testing the network source on one machine.
+ */
+import { createServer } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { gunzipSync } from 'node:zlib';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const USAGE = `Usage:
+  node bridge.mjs --serial <path> [--baud 115200]
+  node bridge.mjs --replay <file> [--rate 50] [--no-loop]
+Options:
+  --host <address>         Interface to listen on (default 127.0.0.1)
+  --port <number>          WebSocket port (default 8765)
+  --allow-origin <origin>  Page origin allowed to connect, besides local ones (repeatable)
+  --token <secret>         Required as ?token=<secret>; needed unless --host is a loopback address`;
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+const parseArgs = (argv) => {
+    const options = { host: '127.0.0.1', port: 8765, baud: 115200, rate: 50, loop: true, allowedOrigins: [], token: null };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const next = () => {
+            if (i + 1 >= argv.length) throw new Error(`${arg} needs a value`);
+            return argv[++i];
+        };
+        if (arg === '--serial') options.serial = next();
+        else if (arg === '--replay') options.replay = next();
+        else if (arg === '--baud') options.baud = Number(next());
+        else if (arg === '--rate') options.rate = Number(next());
+        else if (arg === '--host') options.host = next();
+        else if (arg === '--port') options.port = Number(next());
+        else if (arg === '--no-loop') options.loop = false;
+        else if (arg === '--allow-origin') options.allowedOrigins.push(next());
+        else if (arg === '--token') options.token = next();
+        else throw new Error(`Unknown option ${arg}`);
+    }
+    if (!options.serial === !options.replay) throw new Error('Give exactly one of --serial or --replay');
+    if (!(options.rate > 0)) throw new Error('--rate must be a positive number');
+    if (!LOOPBACK_HOSTS.includes(options.host) && !options.token) throw new Error(`--host ${options.host} can be reached from other machines, so give a --token`);
+    return options;
+};
+
+// --- WebSocket framing (RFC 6455, server side) ---
+
+const encodeFrame = (opcode, payload) => {
+    const length = payload.length;
+    const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    if (length < 126) {
+        header[1] = length;
+    } else if (length < 65536) {
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+};
+
+/**
+ * Splits complete client frames off the front of a buffer.
+ * @returns The frames and whatever bytes belong to a frame still arriving.
+ */
+const decodeFrames = (buffer) => {
+    const frames = [];
+    let offset = 0;
+    while (buffer.length - offset >= 2) {
+        const opcode = buffer[offset] & 0x0f;
+        const masked = (buffer[offset + 1] & 0x80) !== 0;
+        let length = buffer[offset + 1] & 0x7f;
+        let headerLength = 2;
+        if (length === 126) {
+            if (buffer.length - offset < 4) break;
+            length = buffer.readUInt16BE(offset + 2);
+            headerLength = 4;
+        } else if (length === 127) {
+            if (buffer.length - offset < 10) break;
+            length = Number(buffer.readBigUInt64BE(offset + 2));
+            headerLength = 10;
+        }
+        const maskLength = masked ? 4 : 0;
+        const end = offset + headerLength + maskLength + length;
+        if (buffer.length < end) break;
+
+        const payload = Buffer.from(buffer.subarray(offset + headerLength + maskLength, end));
+        if (masked) {
+            const mask = buffer.subarray(offset + headerLength, offset + headerLength + 4);
+            for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+        }
+        frames.push({ opcode, payload });
+        offset = end;
+    }
+    return { frames, rest: buffer.subarray(offset) };
+};
+
+/**
+ * Whether a connection may be accepted. Browsers always send their page's
+ * origin, so other web pages are turned away; clients outside a browser send
+ * none and are held back by the token alone.
+ */
+const isAllowedClient = (request, { allowedOrigins, token }) => {
+    const origin = request.headers.origin;
+    if (origin !== undefined && !allowedOrigins.includes(origin)) {
+        let hostname;
+        try {
+            hostname = new URL(origin).hostname;
+        } catch {
+            return false;
+        }
+        if (!LOOPBACK_HOSTS.includes(hostname.replace(/^\[|\]$/g, ''))) return false;
+    }
+    if (!token) return true;
+    const given = new URL(request.url ?? '/', 'http://bridge').searchParams.get('token') ?? '';
+    const digest = (text) => createHash('sha256').update(text).digest();
+    return timingSafeEqual(digest(given), digest(token));
+};
+
+/**
+ * Starts the WebSocket server.
+ * @returns A function sending one line to every connected client.
+ */
+const startServer = (options, onMessage) => {
+    const { host, port } = options;
+    const clients = new Set();
+    const server = createServer((request, response) => {
+        response.writeHead(426, { 'Content-Type': 'text/plain' });
+        response.end('This is a WebSocket endpoint for the load cell analyzer.\n');
+    });
+
+    server.on('upgrade', (request, socket) => {
+        const key = request.headers['sec-websocket-key'];
+        if (!key) {
+            socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+            return;
+        }
+        if (!isAllowedClient(request, options)) {
+            console.warn(`Refused a client from ${request.headers.origin ?? socket.remoteAddress}`);
+            socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+            return;
+        }
+        const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+        socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+        socket.setNoDelay(true);
+        clients.add(socket);
+        console.log(`Client connected (${clients.size} total)`);
+
+        let pending = Buffer.alloc(0);
+        socket.on('data', (data) => {
+            const { frames, rest } = decodeFrames(Buffer.concat([pending, data]));
+            pending = rest;
+            for (const { opcode, payload } of frames) {
+                if (opcode === 0x1) onMessage(payload.toString('utf8'));
+                else if (opcode === 0x8) socket.end(encodeFrame(0x8, payload.subarray(0, 2)));
+                else if (opcode === 0x9) socket.write(encodeFrame(0xa, payload));
+            }
+        });
+        const forget = () => {
+            if (clients.delete(socket)) console.log(`Client disconnected (${clients.size} total)`);
+        };
+        socket.on('close', forget);
+        socket.on('error', forget);
+    });
+
+    server.on('error', (error) => {
+        console.error(error.code === 'EADDRINUSE'
+            ? `Port ${port} on ${host} is already in use; pick another with --port`
+            : `Server error: ${error.message}`);
+        process.exit(1);
+    });
+    server.listen(port, host, () => console.log(`Bridge listening on ws://${host}:${port}`));
+
+    return (line) => {
+        const frame = encodeFrame(0x1, Buffer.from(line + '\n', 'utf8'));
+        clients.forEach(client => client.write(frame));
+    };
+};
+
+// --- Sources ---
+
+const startReplay = (options, broadcast) => {
+    const raw = readFileSync(options.replay);
+    const text = options.replay.endsWith('.gz') ? gunzipSync(raw).toString('utf8') : raw.toString('utf8');
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+    if (lines.length === 0) throw new Error(`${options.replay} has no lines to replay`);
+    console.log(`Replaying ${lines.length} lines at ${options.rate} Hz${options.loop ? ', looping' : ''}`);
+
+    let index = 0;
+    const intervalId = setInterval(() => {
+        if (index >= lines.length) {
+            if (!options.loop) {
+                clearInterval(intervalId);
+                console.log('Replay finished');
+                return;
+            }
+            index = 0;
+        }
+        broadcast(lines[index++]);
+    }, 1000 / options.rate);
+
+    return (command) => console.log(`Command ignored in replay mode: ${command.trim()}`);
+};
+
+const startSerial = async (options, broadcast) => {
+    let serialport;
+    try {
+        serialport = await import('serialport');
+    } catch (error) {
+        throw new Error('Serial mode needs the serialport package: npm install serialport');
+    }
+    const port = new serialport.SerialPort({ path: options.serial, baudRate: options.baud });
+    const parser = port.pipe(new serialport.ReadlineParser({ delimiter: '\n' }));
+    parser.on('data', (line) => {
+        const trimmed = line.trim();
+        if (trimmed) broadcast(trimmed);
+    });
+    port.on('open', () => console.log(`Opened ${options.serial} at ${options.baud} baud`));
+    port.on('error', (error) => console.error('Serial port error:', error.message));
+    port.on('close', () => {
+        console.error('Serial port closed');
+        process.exit(1);
+    });
+
+    // Commands arrive with the terminator the browser is configured to send.
+    return (command) => port.write(command);
+};
+
+const main = async () => {
+    let options;
+    try {
+        options = parseArgs(process.argv.slice(2));
+    } catch (error) {
+        console.error(`${error.message}\n\n${USAGE}`);
+        process.exit(2);
+    }
+
+    let sendToDevice = () => {};
+    const broadcast = startServer(options, (message) => sendToDevice(message));
+    sendToDevice = options.replay ? startReplay(options, broadcast) : await startSerial(options, broadcast);
+};
+
+main().catch((error) => {
+    console.error(error.message);
+    process.exit(1);
+});
@@ -0,0 +1,87 @@
+import type { CalibrationModel, Calibration, CalibrationFit } from './types';
+import { CALIBRATION_MODELS } from './constants';
+
+/**
+ * Solves A·x = b by Gaussian elimination with partial pivoting.
+ * @returns The solution, or null if the system is singular.
+ */
+const solveLinearSystem = (a: number[][], b: number[]): number[] | null => {
+    const n = b.length;
+    const m = a.map((row, i) => [...row, b[i]]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+        }
+        if (Math.abs(m[pivot][col]) < 1e-12) return null;
+        [m[col], m[pivot]] = [m[pivot], m[col]];
+
+        for (let row = col + 1; row < n; row++) {
+            const factor = m[row][col] / m[col][col];
+            for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+        }
+    }
+
+    const x = Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = m[row][n];
+        for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+        x[row] = sum / m[row][row];
+    }
+    return x;
+};
+
+/**
+ * Evaluates a calibration at a tared raw value.
+ */
+export const evaluateCalibration = (calibration: Calibration, x: number): number =>
+    calibration.coefficients.reduceRight((acc, c) => acc * x + c, 0);
+
+/**
+ * Number of points needed to fit a calibration model.
+ */
+export const getMinimumPoints = (model: CalibrationModel): number => {
+    const { degree, throughOrigin } = CALIBRATION_MODELS[model];
+    return throughOrigin ? degree : degree + 1;
+};
+
+/**
+ * Least-squares fit of known weight (y) against tared raw value (x).
+ * x is normalised before building the normal equations so cubic terms of
+ * large raw counts stay well conditioned.
+ * @param points - Array of { x: taredRawValue, y: knownWeight }
+ * @returns The fit, or null if there are too few points or the fit is singular.
+ */
+export const fitCalibration = (points: { x: number, y: number }[], model: CalibrationModel): CalibrationFit | null => {
+    const { degree, throughOrigin } = CALIBRATION_MODELS[model];
+    if (points.length < getMinimumPoints(model)) return null;
+
+    const scale = Math.max(...points.map(p => Math.abs(p.x))) || 1;
+    const powers = Array.from({ length: degree + 1 }, (_, k) => k).filter(k => !throughOrigin || k > 0);
+
+    const ata = powers.map(() => Array(powers.length).fill(0));
+    const aty = Array(powers.length).fill(0);
+    points.forEach(({ x, y }) => {
+        const row = powers.map(k => (x / scale) ** k);
+        row.forEach((vi, i) => {
+            aty[i] += vi * y;
+            row.forEach((vj, j) => { ata[i][j] += vi * vj; });
+        });
+    });
+
+    const solution = solveLinearSystem(ata, aty);
+    if (!solution) return null;
+
+    const coefficients = Array(degree + 1).fill(0);
+    powers.forEach((k, i) => { coefficients[k] = solution[i] / scale ** k; });
+
+    const calibration: Calibration = { model, coefficients };
+    const residuals = points.map(({ x, y }) => evaluateCalibration(calibration, x) - y);
+    const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const ssRes = residuals.reduce((sum, r) => sum + r * r, 0);
+    const ssTot = points.reduce((sum, p) => sum + (p.y - meanY) ** 2, 0);
+    const rSquared = ssTot === 0 ? (ssRes === 0 ? 1 : 0) : 1 - ssRes / ssTot;
+
+    return { coefficients, rSquared, residuals };
+};
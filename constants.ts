@@ -0,0 +1,45 @@
+import type {
+    Scale, Unit, TareSource, ZeroTracking, ChannelLimits, ScaleLimits, FilterStage, ScaleGeometry, PlateConfig, CalibrationModel,
+    Calibration,
+} from './types';
+
+export const PROFILE_FILE_FORMAT = 'loadcell-analyzer-profile';
+export const DEFAULT_CAPTURE_RATE_HZ = 10;
+/** Force directions of the axis categories, in degrees. */
+export const CATEGORY_ANGLES: Partial<Record<Scale['category'], number>> = { x: 0, y: 90, '-x': 180, '-y': 270 };
+export const DEFAULT_SCALE_GEOMETRY: ScaleGeometry = { angle: 0, weight: 1, x: 0, y: 0 };
+export const DEFAULT_PLATE_CONFIG: PlateConfig = { referenceX: 0, referenceY: 0, positionUnit: 'mm', forceUnit: 'kg', forcePrecision: 3 };
+/**
+ * Newtons per unit. Electrical units have none: only a calibration relates
+ * them to force, so they convert to nothing but themselves.
+ */
+export const UNITS: Record<Unit, { label: string; newtons: number | null }> = {
+    g: { label: 'g', newtons: 0.00980665 },
+    kg: { label: 'kg', newtons: 9.80665 },
+    N: { label: 'N', newtons: 1 },
+    lbf: { label: 'lbf', newtons: 4.4482216152605 },
+    'mV/V': { label: 'mV/V', newtons: null },
+    counts: { label: 'raw counts', newtons: null },
+};
+export const DEFAULT_PRECISION = 3;
+export const MAX_PRECISION = 10;
+export const NO_LIMITS: ChannelLimits = { upper: null, lower: null, maxRate: null };
+export const DEFAULT_SCALE_LIMITS: ScaleLimits = { ...NO_LIMITS, capacity: null };
+export const TARE_SOURCE_LABELS: Record<TareSource, string> = { instant: 'Tare', average: 'Averaged tare', manual: 'Manual entry', zeroTracking: 'Zero tracking', undo: 'Undo' };
+export const DEFAULT_ZERO_TRACKING: ZeroTracking = { enabled: false, band: 0.01 };
+export const FILTER_TYPES: Record<FilterStage['type'], { label: string; defaults: FilterStage }> = {
+    movingAverage: { label: 'Moving average', defaults: { type: 'movingAverage', windowSize: 5 } },
+    median: { label: 'Median', defaults: { type: 'median', windowSize: 5 } },
+    lowPass: { label: 'Low-pass', defaults: { type: 'lowPass', timeConstant: 0.1 } },
+    notch: { label: 'Notch', defaults: { type: 'notch', frequency: 50 } },
+};
+export const MAX_FILTER_WINDOW = 200;
+
+export const CALIBRATION_MODELS: Record<CalibrationModel, { label: string; degree: number; throughOrigin: boolean }> = {
+    slope: { label: 'Slope only (y = a·x)', degree: 1, throughOrigin: true },
+    linear: { label: 'Slope + offset (y = a·x + b)', degree: 1, throughOrigin: false },
+    poly2: { label: '2nd order polynomial', degree: 2, throughOrigin: false },
+    poly3: { label: '3rd order polynomial', degree: 3, throughOrigin: false },
+};
+
+export const IDENTITY_CALIBRATION: Calibration = { model: 'slope', coefficients: [0, 1] };
@@ -0,0 +1,61 @@
+import type { FilterStage, FilterState } from './types';
+import { calculateMean } from './statistics';
+
+const NOTCH_Q = 5;
+
+export const createFilterState = (): FilterState => ({ window: [], previous: null, biquad: null });
+
+/**
+ * Runs one reading through a filter stage, updating its state in place.
+ * @param dtSeconds Time since the previous reading, 0 if unknown.
+ * @param sampleRateHz Estimated sample rate, null until enough readings have arrived.
+ */
+const applyFilterStage = (stage: FilterStage, state: FilterState, value: number, dtSeconds: number, sampleRateHz: number | null): number => {
+    switch (stage.type) {
+        case 'movingAverage':
+        case 'median': {
+            state.window.push(value);
+            if (state.window.length > stage.windowSize) state.window.splice(0, state.window.length - stage.windowSize);
+            if (stage.type === 'movingAverage') return calculateMean(state.window);
+            const sorted = [...state.window].sort((a, b) => a - b);
+            const middle = Math.floor(sorted.length / 2);
+            return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+        }
+        case 'lowPass': {
+            // The smoothing factor follows the actual interval, so uneven timing doesn't change the response.
+            const alpha = stage.timeConstant > 0 ? 1 - Math.exp(-dtSeconds / stage.timeConstant) : 1;
+            state.previous = state.previous === null ? value : state.previous + alpha * (value - state.previous);
+            return state.previous;
+        }
+        case 'notch': {
+            // Starting from a settled state avoids a step response on the first reading.
+            const [x1, x2, y1, y2] = state.biquad ?? [value, value, value, value];
+            let output = value;
+            if (sampleRateHz !== null && stage.frequency < sampleRateHz / 2) {
+                // RBJ cookbook notch, normalised by a0.
+                const w0 = 2 * Math.PI * stage.frequency / sampleRateHz;
+                const alpha = Math.sin(w0) / (2 * NOTCH_Q);
+                const a0 = 1 + alpha;
+                const cos = Math.cos(w0);
+                output = (value - 2 * cos * x1 + x2 + 2 * cos * y1 - (1 - alpha) * y2) / a0;
+            }
+            state.biquad = [value, x1, output, y1];
+            return output;
+        }
+    }
+};
+
+/**
+ * Runs one reading through a channel's filter chain.
+ */
+export const runFilterChain = (stages: FilterStage[], states: FilterState[], value: number, dtSeconds: number, sampleRateHz: number | null): number =>
+    stages.reduce((input, stage, i) => applyFilterStage(stage, states[i], input, dtSeconds, sampleRateHz), value);
+
+export const describeFilterStage = (stage: FilterStage): string => {
+    switch (stage.type) {
+        case 'movingAverage': return `Moving average (${stage.windowSize})`;
+        case 'median': return `Median (${stage.windowSize})`;
+        case 'lowPass': return `Low-pass (${stage.timeConstant} s)`;
+        case 'notch': return `Notch (${stage.frequency} Hz)`;
+    }
+};
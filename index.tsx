@@ -1,493 +1,6189 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
+import type {
+    Scale, Unit, TareSource, TareChange, ZeroTracking, ChannelLimits, ScaleLimits, AlarmSettings, AlarmKind, AlarmEvent, ActiveAlarms,
+    FilterStage, ScaleGeometry, PlateConfig, ForceResultant, CalibrationModel, Calibration, CalibrationPoint, CalibrationRecord,
+    CaptureSettings, CaptureState, LogEntry, LogMarker, LogSegment, RecordingSession, ActiveRecording, LineFormat, AlignmentPolicy,
+    ProtocolConfig, LineStats, DeviceCommand, DeviceCommandConfig, ConsoleEntry, PendingCommand, ScaleConfig, ConfigProfile, ProfileStore,
+    ProfileFile, ExportFormat, ExportOptions, ExportSource, ReplayData, ReplayStatus, SimulatorChannel, SimulatorSegment, SimulatorConfig,
+    SimulatorState, SerialStatus, SerialSettings, DeviceLink, RememberedPort, ChartRange, StatisticsSettings, ChannelStatistics,
+    LogStatistics, DriftBaseline, LinkStats, SequenceStatistic, SequenceStep, TestSequence, SequenceStepResult, SequenceRun, ActiveSequence,
+} from './types';
+import {
+    PROFILE_FILE_FORMAT, DEFAULT_CAPTURE_RATE_HZ, CATEGORY_ANGLES, DEFAULT_SCALE_GEOMETRY, DEFAULT_PLATE_CONFIG, UNITS, DEFAULT_PRECISION,
+    MAX_PRECISION, NO_LIMITS, DEFAULT_SCALE_LIMITS, TARE_SOURCE_LABELS, DEFAULT_ZERO_TRACKING, FILTER_TYPES, MAX_FILTER_WINDOW,
+    CALIBRATION_MODELS, IDENTITY_CALIBRATION,
+} from './constants';
+import { calculateTrendlineSlope, calculateMean, calculateStandardDeviation } from './statistics';
+import { evaluateCalibration, getMinimumPoints, fitCalibration } from './calibration';
+import { describeFilterStage } from './filters';
+import { getUnitFactor, getForceAngle, resolveForces, processScales } from './processing';
+import { getUnfilteredValue, createAcquisitionCore } from './acquisition';
+import { LINE_PARSERS, parseLine } from './protocol';
+import { isPlainObject, isFiniteNumber, isOwnKey, isValidPrecision, guessLegacyUnit, isValidLimits, parseScaleConfig } from './validation';
+import { parseReplayFile, sessionToReplayData, findReplayIndex } from './replay';
 
-// FIX: Add Web Serial API type definitions to resolve TypeScript errors.
-// These are typically provided by `@types/w3c-web-serial`, but are added here
-// for self-containment as the project does not include them.
-declare global {
-    interface SerialPort {
-        open(options: { baudRate: number }): Promise<void>;
-        close(): Promise<void>;
-        readonly readable: ReadableStream<Uint8Array> | null;
-    }
+// --- Constants ---
+// Single-setup keys from before profiles; only read to migrate into the first profile.
+const LOCAL_STORAGE_KEY = 'loadcellAnalyzerScalesConfig';
+const PROTOCOL_STORAGE_KEY = 'loadcellAnalyzerProtocolConfig';
+const PROFILES_STORAGE_KEY = 'loadcellAnalyzerProfiles';
+const PROFILE_SCHEMA_VERSION = 1;
+const DEFAULT_PROFILE_NAME = 'Default';
+const SESSION_DB_NAME = 'loadcellAnalyzer';
+const SESSION_DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const SESSION_CHUNK_STORE = 'sessionChunks';
+const RECORDING_FLUSH_INTERVAL_MS = 1000;
+const EXPORT_CHUNK_ROWS = 5000;
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 5, 10, 20];
+const REPLAY_TICK_MS = 50;
+const SIMULATOR_STORAGE_KEY = 'loadcellAnalyzerSimulatorConfig';
+const SIMULATOR_TICK_MS = 20;
+/** Most simulated time one tick may catch up on after the timer was held back, e.g. in a background tab. */
+const MAX_SIMULATOR_CATCH_UP_MS = 1000;
+const SERIAL_SETTINGS_STORAGE_KEY = 'loadcellAnalyzerSerialSettings';
+const STATISTICS_SETTINGS_STORAGE_KEY = 'loadcellAnalyzerStatisticsSettings';
+const DEFAULT_STATISTICS_SETTINGS: StatisticsSettings = { windowSeconds: 2, maxStdDev: 0.05, maxSlopePerSecond: 0.05, source: 'filtered' };
+const MIN_STATISTICS_SAMPLES = 3;
+const SERIAL_PORT_STORAGE_KEY = 'loadcellAnalyzerSerialPort';
+const NETWORK_URL_STORAGE_KEY = 'loadcellAnalyzerNetworkUrl';
+const DEFAULT_NETWORK_URL = 'ws://localhost:8765';
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const LINK_STATS_INTERVAL_MS = 1000;
+const BAUD_RATES = [1200, 2400, 4800, 9600, 19200, 38400, 57600, 115200, 230400, 460800, 921600];
 
-    interface Navigator {
-        serial: {
-            requestPort(options?: any): Promise<SerialPort>;
-        };
-    }
-}
+const DEFAULT_SERIAL_SETTINGS: SerialSettings = {
+    baudRate: 9600,
+    dataBits: 8,
+    stopBits: 1,
+    parity: 'none',
+    flowControl: 'none',
+    bufferSize: 255,
+    autoReconnect: true,
+    reconnectOnLoad: true,
+};
 
-// --- Type Definitions ---
-interface Scale {
-    id: number;
-    name: string;
-    rawValue: number;
-    tareValue: number;
-    calibrationSlope: number;
-    category: 'none' | 'x' | '-x' | 'y' | '-y';
-}
+const LINE_TERMINATORS = [
+    { value: '\n', label: 'LF (\\n)' },
+    { value: '\r\n', label: 'CR LF (\\r\\n)' },
+    { value: '\r', label: 'CR (\\r)' },
+];
+const MAX_CONSOLE_ENTRIES = 200;
+const DEFAULT_COMMAND_TIMEOUT_MS = 2000;
 
-interface CalibrationPoint {
-    knownWeight: number;
-    rawValue: number;
-}
+const DEFAULT_DEVICE_COMMANDS: DeviceCommandConfig = {
+    lineTerminator: '\n',
+    commands: [
+        { id: 'tare', label: 'Hardware Tare', template: 'TARE', responsePattern: '^(OK|ERR)', timeoutMs: 2000 },
+        { id: 'rate', label: 'Set Sample Rate', template: 'RATE {value}', responsePattern: '^(OK|ERR)', timeoutMs: 2000 },
+        { id: 'gain', label: 'Set Gain', template: 'GAIN {value}', responsePattern: '^(OK|ERR)', timeoutMs: 2000 },
+        { id: 'version', label: 'Firmware Version', template: 'VER?', responsePattern: '^VER', timeoutMs: 2000 },
+        { id: 'start', label: 'Start Streaming', template: 'START', responsePattern: '', timeoutMs: 2000 },
+        { id: 'stop', label: 'Stop Streaming', template: 'STOP', responsePattern: '^(OK|ERR)', timeoutMs: 2000 },
+    ],
+};
 
-interface LogEntry {
-    totalX: number;
-    totalY: number;
-    processedValues: number[];
-}
+const EMPTY_LINK_STATS: LinkStats = { bytesReceived: 0, linesPerSecond: 0, lastValidLineAt: null, updatedAt: 0 };
 
-type CalibrationResult = {
-    slope: number;
-    rSquared: number;
+const DEFAULT_SIMULATOR_CHANNEL: SimulatorChannel = {
+    baseline: 0,
+    gain: 1,
+    noise: 0.02,
+    drift: 0,
+    thermalAmplitude: 0,
+    thermalPeriod: 600,
+    x: 0,
+    y: 0,
 };
 
-type SerialStatus = {
-    text: string;
-    type: 'idle' | 'connected' | 'connecting' | 'error';
+const SIMULATOR_PRESETS: Record<string, SimulatorConfig> = {
+    'Noise only': {
+        sampleRateHz: 10,
+        defaultChannel: DEFAULT_SIMULATOR_CHANNEL,
+        channels: [],
+        dropoutRate: 0,
+        dropoutDuration: 1,
+        malformedRate: 0,
+        segments: [],
+        loop: true,
+    },
+    'Steps with drift and faults': {
+        sampleRateHz: 20,
+        defaultChannel: { ...DEFAULT_SIMULATOR_CHANNEL, baseline: 500, gain: 2, noise: 0.2, drift: 0.01, thermalAmplitude: 0.5, thermalPeriod: 120 },
+        channels: [],
+        dropoutRate: 0.002,
+        dropoutDuration: 2,
+        malformedRate: 0.01,
+        segments: [
+            { type: 'step', duration: 5, load: 0 },
+            { type: 'step', duration: 10, load: 100 },
+            { type: 'step', duration: 10, load: 250 },
+            { type: 'step', duration: 5, load: 0 },
+        ],
+        loop: true,
+    },
+    'Ramp up and down': {
+        sampleRateHz: 20,
+        defaultChannel: DEFAULT_SIMULATOR_CHANNEL,
+        channels: [],
+        dropoutRate: 0,
+        dropoutDuration: 1,
+        malformedRate: 0,
+        segments: [
+            { type: 'ramp', duration: 10, from: 0, to: 200 },
+            { type: 'ramp', duration: 10, from: 200, to: 0 },
+        ],
+        loop: true,
+    },
+    'Sine': {
+        sampleRateHz: 50,
+        defaultChannel: DEFAULT_SIMULATOR_CHANNEL,
+        channels: [],
+        dropoutRate: 0,
+        dropoutDuration: 1,
+        malformedRate: 0,
+        segments: [{ type: 'sine', duration: 20, offset: 100, amplitude: 50, period: 4 }],
+        loop: true,
+    },
+    'Load moving across plate': {
+        sampleRateHz: 20,
+        defaultChannel: DEFAULT_SIMULATOR_CHANNEL,
+        channels: [
+            { x: -1, y: -1 }, { x: 1, y: -1 }, { x: 1, y: 1 }, { x: -1, y: 1 },
+            { x: 0, y: -1 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 },
+        ],
+        dropoutRate: 0,
+        dropoutDuration: 1,
+        malformedRate: 0,
+        segments: [
+            { type: 'move', duration: 10, load: 100, from: [-1, -1], to: [1, 1] },
+            { type: 'move', duration: 10, load: 100, from: [1, -1], to: [-1, 1] },
+        ],
+        loop: true,
+    },
 };
 
-// --- Constants ---
-const LOCAL_STORAGE_KEY = 'loadcellAnalyzerScalesConfig';
+const DEFAULT_SIMULATOR_CONFIG = SIMULATOR_PRESETS['Noise only'];
+
+const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    format: 'csv',
+    gzip: false,
+    precision: 3,
+    channelPrecision: true,
+    includeMetadata: true,
+    columns: { timestamp: true, elapsed: true, totals: true, processed: true, unfiltered: false, raw: false },
+    scaleIds: null,
+};
+
+const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+    csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+    tsv: { label: 'TSV', extension: 'tsv', mimeType: 'text/tab-separated-values' },
+    jsonl: { label: 'JSON Lines', extension: 'jsonl', mimeType: 'application/x-ndjson' },
+};
+const OPERATOR_STORAGE_KEY = 'loadcellAnalyzerOperator';
+const SEQUENCES_STORAGE_KEY = 'loadcellAnalyzerSequences';
+const SEQUENCE_RUNS_STORAGE_KEY = 'loadcellAnalyzerSequenceRuns';
+const MAX_SEQUENCE_RUNS = 100;
+const SEQUENCE_STATISTIC_LABELS: Record<SequenceStatistic, string> = {
+    value: 'Value',
+    mean: 'Mean',
+    stdDev: 'Std Dev',
+    min: 'Min',
+    max: 'Max',
+    peakToPeak: 'Peak-Peak',
+    slopePerSecond: 'Slope (/s)',
+};
+const EXAMPLE_SEQUENCE: TestSequence = {
+    name: 'Example: load A',
+    steps: [
+        { type: 'prompt', message: 'Remove all loads from the plate.' },
+        { type: 'waitStable', channel: 'totalX', timeout: 30 },
+        { type: 'tare' },
+        { type: 'prompt', message: 'Apply load A.' },
+        { type: 'waitStable', channel: 'totalX', timeout: 30 },
+        { type: 'record', duration: 10 },
+        { type: 'assert', channel: 'totalX', statistic: 'mean', min: 99, max: 101 },
+        { type: 'assert', channel: 'totalX', statistic: 'stdDev', max: 0.05 },
+    ],
+};
+/** Adds a marker when pressed outside a text field. */
+const MARKER_SHORTCUT_KEY = 'm';
+const DEFAULT_SCALE_COUNT = 8;
+const PLATE_TRAIL_LENGTH = 60;
+const CHART_HEIGHT = 220;
+const CHART_MARGIN = { left: 56, right: 12, top: 10, bottom: 24 };
+const CHART_ZOOM_STEP = 1.25;
+const CHART_MIN_SPAN_MS = 50;
+const CHART_PALETTE = ['#ffb74d', '#4fc3f7', '#aed581', '#f06292', '#fff176', '#9575cd', '#4db6ac', '#e57373'];
+/** Loads below this fraction of the largest cell load are drawn as idle. */
+const IDLE_CELL_FRACTION = 0.02;
+const DEFAULT_ALARM_SETTINGS: AlarmSettings = { totalX: NO_LIMITS, totalY: NO_LIMITS, overloadPercent: 100, audible: false };
+const ALARM_KIND_LABELS: Record<AlarmKind, string> = { upper: 'Above upper limit', lower: 'Below lower limit', rate: 'Rate of change', overload: 'Overload' };
+/** Rates are taken over at least this span, so single noisy samples don't trip them. */
+const ALARM_RATE_WINDOW_MS = 200;
+const MAX_ALARM_EVENTS = 1000;
+const MAX_TARE_HISTORY = 50;
+const TARE_WINDOW_STORAGE_KEY = 'loadcellAnalyzerTareWindow';
+/** Share of a stable offset zero tracking removes per correction. */
+const ZERO_TRACKING_GAIN = 0.5;
+/** Shortest time between corrections; the statistics window also has to pass. */
+const ZERO_TRACKING_INTERVAL_MS = 1000;
+const DEFAULT_LOG_BUFFER_SIZE = 100;
+/** The UI takes new samples from the acquisition core at most this often (about 30 fps). */
+const UI_REFRESH_INTERVAL_MS = 33;
+const MAINS_FREQUENCIES = [50, 60];
+const MAX_SCALE_COUNT = 32;
+
+const DELIMITER_OPTIONS = [
+    { value: '\t', label: 'Tab' },
+    { value: ',', label: 'Comma' },
+    { value: ';', label: 'Semicolon' },
+    { value: ' ', label: 'Whitespace' },
+];
+
+const DEFAULT_PROTOCOL_CONFIG: ProtocolConfig = {
+    format: 'delimited',
+    delimiter: '\t',
+    keyValueSeparator: '=',
+    columnMap: Array.from({ length: DEFAULT_SCALE_COUNT }, (_, i) => String(i + 1)),
+    devices: ['Device 1'],
+    deviceMap: Array(DEFAULT_SCALE_COUNT).fill(0),
+    alignment: 'latest',
+};
+const MAX_DEVICE_COUNT = 4;
+const ALIGNMENT_POLICIES: { value: AlignmentPolicy; label: string }[] = [
+    { value: 'latest', label: 'Latest value' },
+    { value: 'waitForAll', label: 'Wait for all devices' },
+];
+
+const DEFAULT_CAPTURE_SETTINGS: CaptureSettings = {
+    windowSize: 20,
+    maxSlope: 0.01,
+    maxStdDev: 0.1,
+    mode: 'samples',
+    amount: 50,
+};
+
+const EMPTY_LINE_STATS: LineStats = { accepted: 0, rejected: 0, lastError: null, lastRejectedLine: null };
 
 // --- Helper Functions ---
 
+/** Scales every calibration coefficient, so the calibration outputs `factor` times its value. */
+const scaleCalibration = (calibration: Calibration, factor: number): Calibration => ({
+    ...calibration,
+    coefficients: calibration.coefficients.map(c => c * factor),
+});
+
+/** Scales every limit that is set; limits that are off stay off. */
+const scaleLimits = <T extends ChannelLimits>(limits: T, factor: number): T => ({
+    ...limits,
+    ...Object.fromEntries(Object.entries(limits).map(([key, limit]) => [key, limit === null ? null : limit * factor])),
+});
+
+/**
+ * Formats calibration coefficients as a readable polynomial, highest power first.
+ */
+const formatCalibration = (calibration: Calibration): string =>
+    calibration.coefficients
+        .map((c, k) => ({ c, k }))
+        .filter(({ c, k }) => c !== 0 || k === 0)
+        .reverse()
+        .map(({ c, k }) => `${c.toPrecision(6)}${k === 0 ? '' : k === 1 ? '·x' : `·x^${k}`}`)
+        .join(' + ');
+
+const toScaleConfig = ({ id, name, tareValue, tareHistory, zeroTracking, calibration, calibrationHistory, category, geometry, filters, limits, unit, precision }: Scale): ScaleConfig => ({
+    id,
+    name,
+    tareValue,
+    tareHistory,
+    zeroTracking,
+    calibration,
+    calibrationHistory,
+    category,
+    geometry,
+    filters,
+    limits,
+    unit,
+    precision,
+});
+
+const createScale = (id: number): Scale => ({
+    id,
+    name: `Scale ${id}`,
+    rawValue: 0,
+    filteredValue: 0,
+    tareValue: 0,
+    tareHistory: [],
+    zeroTracking: DEFAULT_ZERO_TRACKING,
+    calibration: IDENTITY_CALIBRATION,
+    calibrationHistory: [],
+    category: 'none',
+    geometry: DEFAULT_SCALE_GEOMETRY,
+    filters: [],
+    limits: DEFAULT_SCALE_LIMITS,
+    unit: 'counts',
+    precision: DEFAULT_PRECISION,
+});
+
 /**
- * Calculates linear regression for a set of data points.
- * @param points - Array of { x: knownWeight, y: measuredValue }
- * @returns { slope, rSquared }
+ * Pads or truncates a column map to the given scale count. New entries map to
+ * the column matching their position, which is the usual delimited layout.
  */
-const calculateLinearRegression = (points: { x: number, y: number }[]): CalibrationResult => {
-    if (points.length < 2) {
-        return { slope: 1, rSquared: 0 };
+const resizeColumnMap = (columnMap: string[], count: number): string[] =>
+    Array.from({ length: count }, (_, i) => columnMap[i] ?? String(i + 1));
+
+/** Pads or truncates the device map; new scales read from the first device. */
+const resizeDeviceMap = (deviceMap: number[], count: number): number[] =>
+    Array.from({ length: count }, (_, i) => deviceMap[i] ?? 0);
+
+/**
+ * Sums up the per-device statuses for the main status indicator. With one
+ * device this is just its status.
+ */
+const combineSerialStatuses = (devices: string[], statuses: SerialStatus[]): SerialStatus => {
+    const all = devices.map((_, i) => statuses[i] ?? { text: 'Disconnected', type: 'idle' as const });
+    if (all.length === 1) return all[0];
+    const connected = all.filter(status => status.type === 'connected').length;
+    const text = `${connected} of ${all.length} devices connected`;
+    for (const type of ['reconnecting', 'error', 'connecting'] as const) {
+        if (all.some(status => status.type === type)) return { text, type };
+    }
+    return { text, type: connected > 0 ? 'connected' : 'idle' };
+};
+
+const parsePlateConfig = (data: unknown, errors: string[]): PlateConfig => {
+    if (data === undefined) return DEFAULT_PLATE_CONFIG;
+    if (!isPlainObject(data) || !isFiniteNumber(data.referenceX) || !isFiniteNumber(data.referenceY)) {
+        errors.push('plate must have numeric referenceX and referenceY');
+        return DEFAULT_PLATE_CONFIG;
+    }
+    if (typeof data.positionUnit !== 'string') errors.push('plate.positionUnit must be a string');
+    if (data.forceUnit !== undefined && !isOwnKey(UNITS, data.forceUnit)) errors.push(`plate.forceUnit must be one of ${Object.keys(UNITS).join(', ')}`);
+    if (data.forcePrecision !== undefined && !isValidPrecision(data.forcePrecision)) errors.push(`plate.forcePrecision must be an integer from 0 to ${MAX_PRECISION}`);
+    return {
+        referenceX: data.referenceX,
+        referenceY: data.referenceY,
+        positionUnit: data.positionUnit as string,
+        forceUnit: (data.forceUnit as Unit | undefined) ?? DEFAULT_PLATE_CONFIG.forceUnit,
+        forcePrecision: (data.forcePrecision as number | undefined) ?? DEFAULT_PLATE_CONFIG.forcePrecision,
+    };
+};
+
+const parseAlarmSettings = (data: unknown, errors: string[]): AlarmSettings => {
+    if (data === undefined) return DEFAULT_ALARM_SETTINGS;
+    const limitKeys = Object.keys(NO_LIMITS);
+    if (!isPlainObject(data) || !isValidLimits(data.totalX, limitKeys) || !isValidLimits(data.totalY, limitKeys)) {
+        errors.push('alarms.totalX and alarms.totalY must have upper, lower and maxRate as numbers or null');
+        return DEFAULT_ALARM_SETTINGS;
     }
+    if (!isFiniteNumber(data.overloadPercent) || data.overloadPercent <= 0) errors.push('alarms.overloadPercent must be a positive number');
+    if (typeof data.audible !== 'boolean') errors.push('alarms.audible must be true or false');
+    return {
+        totalX: data.totalX as ChannelLimits,
+        totalY: data.totalY as ChannelLimits,
+        overloadPercent: data.overloadPercent as number,
+        audible: data.audible as boolean,
+    };
+};
 
-    let sumX = 0, sumY = 0, sumXY = 0, sumX2 = 0, sumY2 = 0;
-    const n = points.length;
+const parseProtocolConfig = (data: unknown, scaleCount: number, errors: string[]): ProtocolConfig => {
+    if (data === undefined) {
+        return { ...DEFAULT_PROTOCOL_CONFIG, columnMap: resizeColumnMap([], scaleCount), deviceMap: resizeDeviceMap([], scaleCount) };
+    }
+    if (!isPlainObject(data)) {
+        errors.push('protocol must be an object');
+        return DEFAULT_PROTOCOL_CONFIG;
+    }
+    if (!isOwnKey(LINE_PARSERS, data.format)) errors.push(`protocol.format must be one of ${Object.keys(LINE_PARSERS).join(', ')}`);
+    if (data.delimiter !== undefined && typeof data.delimiter !== 'string') errors.push('protocol.delimiter must be a string');
+    if (data.keyValueSeparator !== undefined && typeof data.keyValueSeparator !== 'string') errors.push('protocol.keyValueSeparator must be a string');
+    if (!Array.isArray(data.columnMap) || !data.columnMap.every((key: unknown) => typeof key === 'string')) {
+        errors.push('protocol.columnMap must be an array of strings');
+        return DEFAULT_PROTOCOL_CONFIG;
+    }
+    // Single-device profiles from before device slots existed leave these out.
+    const devices: unknown = data.devices ?? DEFAULT_PROTOCOL_CONFIG.devices;
+    const deviceMap = data.deviceMap ?? [];
+    if (!Array.isArray(devices) || devices.length === 0 || devices.length > MAX_DEVICE_COUNT || !devices.every((name: unknown) => typeof name === 'string')) {
+        errors.push(`protocol.devices must be an array of 1 to ${MAX_DEVICE_COUNT} names`);
+    }
+    if (!Array.isArray(deviceMap) || !deviceMap.every((device: unknown) => Number.isInteger(device) && (device as number) >= 0 && (device as number) < (devices as string[]).length)) {
+        errors.push('protocol.deviceMap must hold device indexes');
+    }
+    if (data.alignment !== undefined && !ALIGNMENT_POLICIES.some(policy => policy.value === data.alignment)) {
+        errors.push(`protocol.alignment must be one of ${ALIGNMENT_POLICIES.map(policy => policy.value).join(', ')}`);
+    }
+    return {
+        format: data.format as LineFormat,
+        delimiter: (data.delimiter as string | undefined) ?? DEFAULT_PROTOCOL_CONFIG.delimiter,
+        keyValueSeparator: (data.keyValueSeparator as string | undefined) ?? DEFAULT_PROTOCOL_CONFIG.keyValueSeparator,
+        columnMap: resizeColumnMap(data.columnMap, scaleCount),
+        devices: devices as string[],
+        deviceMap: Array.isArray(deviceMap) ? resizeDeviceMap(deviceMap, scaleCount) : [],
+        alignment: (data.alignment as AlignmentPolicy | undefined) ?? DEFAULT_PROTOCOL_CONFIG.alignment,
+    };
+};
 
-    points.forEach(({ x, y }) => {
-        sumX += x;
-        sumY += y;
-        sumXY += x * y;
-        sumX2 += x * x;
-        sumY2 += y * y;
+/**
+ * Validates the device command set. Profiles saved before commands existed get the defaults.
+ */
+const parseDeviceCommandConfig = (data: unknown, errors: string[]): DeviceCommandConfig => {
+    if (data === undefined) return DEFAULT_DEVICE_COMMANDS;
+    if (!isPlainObject(data) || !Array.isArray(data.commands)) {
+        errors.push('commands must be an object with a commands array');
+        return DEFAULT_DEVICE_COMMANDS;
+    }
+    if (typeof data.lineTerminator !== 'string') errors.push('commands.lineTerminator must be a string');
+    data.commands.forEach((command: unknown, i: number) => {
+        const path = `commands.commands[${i}]`;
+        if (!isPlainObject(command)) {
+            errors.push(`${path} must be an object`);
+            return;
+        }
+        ['id', 'label', 'template', 'responsePattern'].forEach(key => {
+            if (typeof command[key] !== 'string') errors.push(`${path}.${key} must be a string`);
+        });
+        if (!isFiniteNumber(command.timeoutMs) || command.timeoutMs <= 0) errors.push(`${path}.timeoutMs must be a positive number`);
+        try {
+            new RegExp(command.responsePattern as string);
+        } catch (error) {
+            errors.push(`${path}.responsePattern is not a valid regular expression`);
+        }
     });
+    return { lineTerminator: data.lineTerminator as string, commands: data.commands as DeviceCommand[] };
+};
+
+/**
+ * Validates a profile object, migrating older scale fields.
+ * @throws Error listing every problem found, so a bad file can be fixed in one pass.
+ */
+const parseProfile = (data: unknown): ConfigProfile => {
+    const errors: string[] = [];
+    if (!isPlainObject(data)) {
+        throw new Error('profile must be an object');
+    }
+    if (typeof data.name !== 'string' || !data.name.trim()) errors.push('name must be a non-empty string');
+    if (!Array.isArray(data.scales) || data.scales.length === 0) {
+        errors.push('scales must be a non-empty array');
+    } else if (data.scales.length > MAX_SCALE_COUNT) {
+        errors.push(`scales must not have more than ${MAX_SCALE_COUNT} entries`);
+    }
 
-    const numeratorSlope = n * sumXY - sumX * sumY;
-    const denominatorSlope = n * sumX2 - sumX * sumX;
+    const scales = Array.isArray(data.scales)
+        ? data.scales.map((scale: unknown, i: number) => parseScaleConfig(scale, `scales[${i}]`, errors))
+        : [];
+    const ids = scales.filter(Boolean).map((scale: ScaleConfig) => scale.id);
+    if (new Set(ids).size !== ids.length) errors.push('scales must have unique ids');
+    const protocol = parseProtocolConfig(data.protocol, scales.length, errors);
+    const commands = parseDeviceCommandConfig(data.commands, errors);
+    const plate = parsePlateConfig(data.plate, errors);
+    const alarms = parseAlarmSettings(data.alarms, errors);
 
-    if (denominatorSlope === 0) {
-        return { slope: 1, rSquared: 0 }; // Avoid division by zero
+    if (errors.length > 0) {
+        throw new Error(errors.join('\n'));
     }
-    const slope = numeratorSlope / denominatorSlope;
-    
-    const numeratorR = (n * sumXY - sumX * sumY);
-    const denominatorR = Math.sqrt((n * sumX2 - sumX * sumX) * (n * sumY2 - sumY * sumY));
-    
-    if (denominatorR === 0) {
-        return { slope, rSquared: 1 };
+    return { name: (data.name as string).trim(), scales, protocol, commands, plate, alarms };
+};
+
+/**
+ * Reads a profile export file. Files holding a bare array of scales (the
+ * format stored before profiles existed) are accepted as schema version 0.
+ * @throws Error with a user-readable reason if the file cannot be used.
+ */
+const parseProfileFile = (text: string, fallbackName: string): ConfigProfile => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`The file is not valid JSON (${(error as Error).message}).`);
     }
 
-    const r = numeratorR / denominatorR;
-    const rSquared = r * r;
+    if (Array.isArray(data)) {
+        data = { format: PROFILE_FILE_FORMAT, schemaVersion: 0, profile: { name: fallbackName, scales: data } };
+    }
+    if (!isPlainObject(data) || data.format !== PROFILE_FILE_FORMAT) {
+        throw new Error('The file is not a Loadcell Data Analyzer profile.');
+    }
+    if (!Number.isInteger(data.schemaVersion) || (data.schemaVersion as number) < 0) {
+        throw new Error('The file has no valid schemaVersion.');
+    }
+    if ((data.schemaVersion as number) > PROFILE_SCHEMA_VERSION) {
+        throw new Error(`The file uses schema version ${data.schemaVersion}, but this app only supports up to version ${PROFILE_SCHEMA_VERSION}. Please update the app.`);
+    }
 
-    return { slope, rSquared: isNaN(rSquared) ? 0 : rSquared };
+    try {
+        return parseProfile(data.profile);
+    } catch (error) {
+        throw new Error(`The profile is invalid:\n${(error as Error).message}`);
+    }
 };
 
+const buildProfileFile = (profile: ConfigProfile): ProfileFile => ({
+    format: PROFILE_FILE_FORMAT,
+    schemaVersion: PROFILE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile,
+});
+
+const createDefaultProfile = (name: string): ConfigProfile => ({
+    name,
+    scales: Array.from({ length: DEFAULT_SCALE_COUNT }, (_, i) => toScaleConfig(createScale(i + 1))),
+    protocol: DEFAULT_PROTOCOL_CONFIG,
+    commands: DEFAULT_DEVICE_COMMANDS,
+    plate: DEFAULT_PLATE_CONFIG,
+    alarms: DEFAULT_ALARM_SETTINGS,
+});
+
 /**
- * Calculates the slope of a trendline for a time series of data.
- * @param data - Array of numbers.
- * @returns The slope of the trendline.
+ * Builds the first profile from the single-setup keys used before profiles existed.
  */
-const calculateTrendlineSlope = (data: number[]): number => {
-    if (data.length < 2) return 0;
-    const points = data.map((y, i) => ({ x: i, y }));
-    const { slope } = calculateLinearRegression(points);
-    return isNaN(slope) ? 0 : slope;
+const loadLegacyProfile = (): ConfigProfile => {
+    try {
+        const savedScales = localStorage.getItem(LOCAL_STORAGE_KEY);
+        const savedProtocol = localStorage.getItem(PROTOCOL_STORAGE_KEY);
+        if (savedScales) {
+            return parseProfile({
+                name: DEFAULT_PROFILE_NAME,
+                scales: JSON.parse(savedScales),
+                protocol: savedProtocol ? JSON.parse(savedProtocol) : undefined,
+            });
+        }
+    } catch (error) {
+        console.error("Failed to migrate the saved scales configuration, using defaults", error);
+    }
+    return createDefaultProfile(DEFAULT_PROFILE_NAME);
+};
+
+const loadProfileStore = (): ProfileStore => {
+    try {
+        const savedStore = localStorage.getItem(PROFILES_STORAGE_KEY);
+        if (savedStore) {
+            const parsedStore = JSON.parse(savedStore);
+            const profiles: ConfigProfile[] = (Array.isArray(parsedStore.profiles) ? parsedStore.profiles : []).flatMap((profile: unknown) => {
+                try {
+                    return [parseProfile(profile)];
+                } catch (error) {
+                    console.error("Skipping an invalid stored profile", error);
+                    return [];
+                }
+            });
+            if (profiles.length > 0) {
+                const activeProfileName = profiles.some(p => p.name === parsedStore.activeProfileName)
+                    ? parsedStore.activeProfileName
+                    : profiles[0].name;
+                return { activeProfileName, profiles };
+            }
+        }
+    } catch (error) {
+        console.error("Failed to load configuration profiles from localStorage", error);
+    }
+    return { activeProfileName: DEFAULT_PROFILE_NAME, profiles: [loadLegacyProfile()] };
+};
+
+const saveProfileStore = (store: ProfileStore) => {
+    try {
+        localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify({ schemaVersion: PROFILE_SCHEMA_VERSION, ...store }));
+    } catch (error) {
+        console.error("Failed to save configuration profiles to localStorage", error);
+    }
 };
 
+const getActiveProfile = (store: ProfileStore): ConfigProfile =>
+    store.profiles.find(p => p.name === store.activeProfileName) ?? store.profiles[0];
 
 /**
- * Formats a number to 3 decimal places.
+ * Writes part of the active profile straight to storage. Reading the store
+ * back each time keeps callbacks free of stale profile state.
  */
-const formatNumber = (num: number): string => num.toFixed(3);
+const updateActiveProfile = (patch: Partial<Omit<ConfigProfile, 'name'>>) => {
+    const store = loadProfileStore();
+    saveProfileStore({
+        ...store,
+        profiles: store.profiles.map(p => p.name === store.activeProfileName ? { ...p, ...patch } : p),
+    });
+};
 
+const profileToScales = (profile: ConfigProfile): Scale[] =>
+    profile.scales.map(config => ({ ...config, rawValue: 0, filteredValue: 0 }));
 
-// --- React Components ---
+/**
+ * Returns `name`, or `name (2)`, `name (3)`... if it is already taken.
+ */
+const getUniqueProfileName = (name: string, existingNames: string[]): string => {
+    let candidate = name;
+    for (let i = 2; existingNames.includes(candidate); i++) {
+        candidate = `${name} (${i})`;
+    }
+    return candidate;
+};
 
-const DataChart = ({ data, title, color }: { data: number[], title: string, color: string }) => {
-    const width = 100; // Viewbox width
-    const height = 100; // Viewbox height
-    const padding = 8;
-    const textHeight = 15; // Space for the title
-
-    if (data.length < 2) {
-        return (
-            <div className="chart-container">
-                <svg viewBox={`0 0 ${width} ${height}`}>
-                    <text x={width / 2} y={height / 2} className="chart-title">
-                        {title}
-                    </text>
-                    <text x={width / 2} y={(height / 2) + 15} className="chart-waiting-text">
-                        Waiting for data...
-                    </text>
-                </svg>
-            </div>
-        );
+/**
+ * High-resolution wall-clock timestamp in milliseconds.
+ */
+const getTimestamp = (): number => performance.timeOrigin + performance.now();
+
+/**
+ * Sets a scale's tare and records the change. Consecutive zero-tracking
+ * corrections are folded into one entry so slow drift doesn't flood the history.
+ */
+const applyTare = (scale: Scale, value: number, source: TareSource, timestamp: number = Date.now()): Scale => {
+    const last = scale.tareHistory[scale.tareHistory.length - 1];
+    const history = source === 'zeroTracking' && last?.source === 'zeroTracking'
+        ? [...scale.tareHistory.slice(0, -1), { ...last, timestamp, value }]
+        : [...scale.tareHistory, { timestamp, previous: scale.tareValue, value, source }];
+    return { ...scale, tareValue: value, tareHistory: history.slice(-MAX_TARE_HISTORY) };
+};
+
+/** Latest tare change that hasn't been undone yet; each undo entry cancels the change before it. */
+const findUndoableTare = (history: TareChange[]): TareChange | undefined => {
+    let undone = 0;
+    for (let i = history.length - 1; i >= 0; i--) {
+        if (history[i].source === 'undo') undone++;
+        else if (undone > 0) undone--;
+        else return history[i];
     }
+    return undefined;
+};
+
+/** Restores the tare from before the latest change that is still in effect and records the undo. */
+const undoTare = (scale: Scale, timestamp: number = Date.now()): Scale => {
+    const change = findUndoableTare(scale.tareHistory);
+    if (!change) return scale;
+    const history = [...scale.tareHistory, { timestamp, previous: scale.tareValue, value: change.previous, source: 'undo' as const }];
+    return { ...scale, tareValue: change.previous, tareHistory: history.slice(-MAX_TARE_HISTORY) };
+};
 
-    const maxVal = Math.max(...data);
-    const minVal = Math.min(...data);
-    const yRange = maxVal - minVal;
+/**
+ * Tare that removes part of a small, stable offset from zero, or null when
+ * zero tracking is off or the channel is moving or outside the band.
+ */
+const getZeroTrackingTare = (scale: Scale, stats: ChannelStatistics): number | null => {
+    if (!scale.zeroTracking.enabled || stats.isStable !== true) return null;
+    if (stats.mean === 0 || Math.abs(stats.mean) > scale.zeroTracking.band) return null;
+    // The local slope of the calibration turns the processed offset back into raw units.
+    const tared = scale.filteredValue - scale.tareValue;
+    const slope = evaluateCalibration(scale.calibration, tared + 0.5) - evaluateCalibration(scale.calibration, tared - 0.5);
+    if (!Number.isFinite(slope) || slope === 0) return null;
+    return scale.tareValue + ZERO_TRACKING_GAIN * stats.mean / slope;
+};
 
-    const effectiveYRange = yRange === 0 ? 1 : yRange;
+const promisifyRequest = <T,>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
 
-    const points = data.map((d, i) => {
-        const x = (i / (data.length - 1)) * width;
-        const y = (height - textHeight) - (((d - minVal) / effectiveYRange) * (height - textHeight - padding)) + (textHeight);
-        return `${x},${y}`;
-    }).join(' ');
+const promisifyTransaction = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
 
-    return (
-        <div className="chart-container">
-            <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none">
-                <text x={width / 2} y={padding} className="chart-title">{title}</text>
-                <polyline
-                    className="line"
-                    points={points}
-                    style={{ stroke: color }}
-                />
-            </svg>
-        </div>
+let sessionDbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates) the recording database. Session metadata
+ * and samples live in separate stores so the browser can list sessions
+ * without loading hours of samples; samples are stored in chunks keyed by
+ * [sessionId, chunkIndex].
+ */
+const openSessionDb = (): Promise<IDBDatabase> => {
+    if (!sessionDbPromise) {
+        sessionDbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(SESSION_DB_NAME, SESSION_DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSION_STORE)) {
+                    db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(SESSION_CHUNK_STORE)) {
+                    db.createObjectStore(SESSION_CHUNK_STORE, { keyPath: ['sessionId', 'index'] });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                sessionDbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return sessionDbPromise;
+};
+
+const sessionChunkRange = (sessionId: string) =>
+    IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]);
+
+const listSessions = async (): Promise<RecordingSession[]> => {
+    const db = await openSessionDb();
+    const sessions: RecordingSession[] = await promisifyRequest(db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll());
+    // Sessions recorded before the geometry model, filtering, alarms, units or tare history lack those fields.
+    sessions.forEach(session => {
+        session.scaleConfig = session.scaleConfig.map(scale => ({
+            ...scale,
+            geometry: scale.geometry ?? DEFAULT_SCALE_GEOMETRY,
+            filters: scale.filters ?? [],
+            limits: scale.limits ?? DEFAULT_SCALE_LIMITS,
+            unit: scale.unit ?? guessLegacyUnit(scale.calibration),
+            precision: scale.precision ?? DEFAULT_PRECISION,
+            tareHistory: scale.tareHistory ?? [],
+            zeroTracking: scale.zeroTracking ?? DEFAULT_ZERO_TRACKING,
+        }));
+    });
+    return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+const saveSession = async (session: RecordingSession) => {
+    const db = await openSessionDb();
+    const transaction = db.transaction(SESSION_STORE, 'readwrite');
+    transaction.objectStore(SESSION_STORE).put(session);
+    await promisifyTransaction(transaction);
+};
+
+/**
+ * Appends a chunk of samples and updates the session metadata in one transaction.
+ */
+const appendSessionChunk = async (session: RecordingSession, index: number, samples: LogEntry[]) => {
+    const db = await openSessionDb();
+    const transaction = db.transaction([SESSION_STORE, SESSION_CHUNK_STORE], 'readwrite');
+    transaction.objectStore(SESSION_CHUNK_STORE).put({ sessionId: session.id, index, samples });
+    transaction.objectStore(SESSION_STORE).put(session);
+    await promisifyTransaction(transaction);
+};
+
+const loadSessionSamples = async (sessionId: string): Promise<LogEntry[]> => {
+    const db = await openSessionDb();
+    const chunks: { samples: LogEntry[] }[] = await promisifyRequest(
+        db.transaction(SESSION_CHUNK_STORE).objectStore(SESSION_CHUNK_STORE).getAll(sessionChunkRange(sessionId))
     );
+    return chunks.flatMap(chunk => chunk.samples);
 };
 
+const deleteSession = async (sessionId: string) => {
+    const db = await openSessionDb();
+    const transaction = db.transaction([SESSION_STORE, SESSION_CHUNK_STORE], 'readwrite');
+    transaction.objectStore(SESSION_STORE).delete(sessionId);
+    transaction.objectStore(SESSION_CHUNK_STORE).delete(sessionChunkRange(sessionId));
+    await promisifyTransaction(transaction);
+};
 
-const CalibrationModal = ({
-    scale,
-    onClose,
-    onApply,
-}: {
-    scale: Scale;
-    onClose: () => void;
-    onApply: (scaleId: number, newSlope: number) => void;
-}) => {
-    const [points, setPoints] = useState<CalibrationPoint[]>([]);
-    const [knownWeight, setKnownWeight] = useState<string>('100');
-    
-    const regressionResult = useMemo(() => {
-        const taredPoints = points.map(p => ({ x: p.knownWeight, y: p.rawValue - scale.tareValue }));
-        return calculateLinearRegression(taredPoints);
-    }, [points, scale.tareValue]);
+const formatDuration = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
 
-    const addPoint = () => {
-        const weight = parseFloat(knownWeight);
-        if (isNaN(weight)) {
-            alert('Please enter a valid number for weight.');
-            return;
-        }
-        setPoints([...points, { knownWeight: weight, rawValue: scale.rawValue }]);
-    };
-    
-    const handleApply = () => {
-        if (regressionResult.slope !== 1) { // Check if calibration was done
-            onApply(scale.id, regressionResult.slope);
-        }
-        onClose();
-    };
+/**
+ * Formats a number to a fixed number of decimal places, 3 unless given.
+ */
+const formatNumber = (num: number, precision: number = DEFAULT_PRECISION): string => num.toFixed(precision);
 
-    return (
-        <div className="modal-overlay" onClick={onClose}>
-            <div className="modal-content" onClick={(e) => e.stopPropagation()}>
-                <div className="modal-header">
-                    <h2>Calibrate {scale.name}</h2>
-                    <button onClick={onClose} className="modal-close-btn">&times;</button>
-                </div>
-                
-                <div className="calibration-form">
-                    <input 
-                        type="number"
-                        value={knownWeight}
-                        onChange={(e) => setKnownWeight(e.target.value)}
-                        placeholder="Enter known weight (e.g., 100)"
-                    />
-                    <button onClick={addPoint}>Add Data Point (Current Raw: {formatNumber(scale.rawValue)})</button>
-                </div>
+/** Formats a value with its unit, e.g. "1.250 kg". */
+const formatQuantity = (value: number, unit: Unit, precision: number = DEFAULT_PRECISION): string =>
+    `${formatNumber(value, precision)} ${unit}`;
 
-                {points.length > 0 && (
-                     <table className="data-points-table">
-                        <thead>
-                            <tr>
-                                <th>Known Weight</th>
-                                <th>Raw Value</th>
-                                <th>Tared Value</th>
-                            </tr>
-                        </thead>
-                        <tbody>
-                            {points.map((p, i) => (
-                                <tr key={i}>
-                                    <td>{p.knownWeight}</td>
-                                    <td>{formatNumber(p.rawValue)}</td>
-                                    <td>{formatNumber(p.rawValue - scale.tareValue)}</td>
-                                </tr>
-                            ))}
-                        </tbody>
-                    </table>
-                )}
+const escapeHtml = (text: string): string =>
+    text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] as string));
 
-                {points.length > 1 && (
-                    <div className="calibration-results">
-                        <p>Calculated Slope (A): <span>{formatNumber(regressionResult.slope)}</span></p>
-                        <p>Coefficient of Determination (R²): <span>{formatNumber(regressionResult.rSquared)}</span></p>
-                    </div>
-                )}
-                
-                <div className="modal-actions">
-                    <button onClick={onClose}>Cancel</button>
-                    <button onClick={handleApply} disabled={points.length < 2}>Apply Calibration</button>
-                </div>
-            </div>
-        </div>
-    );
+/**
+ * Triggers a browser download of the given content.
+ */
+const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
 };
 
-const App = () => {
-    const [scales, setScales] = useState<Scale[]>(() => {
-        try {
-            const savedConfig = localStorage.getItem(LOCAL_STORAGE_KEY);
-            if (savedConfig) {
-                const parsedConfig: Omit<Scale, 'rawValue'>[] = JSON.parse(savedConfig);
-                if (Array.isArray(parsedConfig) && parsedConfig.length === 8) {
-                    return parsedConfig.map(config => ({
-                        ...config,
-                        rawValue: 0, 
-                    }));
-                }
+const toFileSafeName = (text: string): string => text.replace(/[^\w.-]+/g, '_');
+
+/**
+ * Builds a self-contained, print-ready HTML calibration certificate for one record.
+ */
+const buildCalibrationCertificateHtml = (scale: Scale, record: CalibrationRecord): string => {
+    const rows = record.points.map((p, i) => {
+        const tared = p.rawValue - record.tareValue;
+        const fitted = evaluateCalibration(record.calibration, tared);
+        return `<tr><td>${i + 1}</td><td>${p.knownWeight}</td><td>${formatNumber(p.rawValue)}</td><td>${formatNumber(tared)}</td>`
+            + `<td>${formatNumber(p.stdDev)} (${p.sampleCount})</td><td>${formatNumber(fitted)}</td><td>${formatNumber(fitted - p.knownWeight)}</td></tr>`;
+    }).join('');
+    const coefficientRows = record.calibration.coefficients
+        .map((c, k) => `<tr><td>a${k} (x^${k})</td><td>${c.toPrecision(10)}</td></tr>`)
+        .join('');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<title>Calibration Certificate - ${escapeHtml(scale.name)}</title>
+<style>
+body { font-family: sans-serif; margin: 2rem; color: #111; }
+h1 { font-size: 1.5rem; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #999; padding: 0.3rem 0.6rem; text-align: right; }
+th { background: #eee; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+dt { font-weight: bold; }
+.signature { margin-top: 3rem; display: flex; gap: 4rem; }
+.signature div { border-top: 1px solid #111; padding-top: 0.25rem; width: 15rem; }
+@media print { button { display: none; } }
+</style>
+</head>
+<body>
+<button onclick="window.print()">Print / Save as PDF</button>
+<h1>Calibration Certificate</h1>
+<dl>
+<dt>Scale</dt><dd>${escapeHtml(scale.name)} (ID ${scale.id})</dd>
+<dt>Record ID</dt><dd>${escapeHtml(record.id)}</dd>
+<dt>Date</dt><dd>${escapeHtml(new Date(record.appliedAt).toLocaleString())}</dd>
+<dt>Operator</dt><dd>${escapeHtml(record.operator || '-')}</dd>
+<dt>Model</dt><dd>${escapeHtml(CALIBRATION_MODELS[record.calibration.model].label)}</dd>
+<dt>Fit</dt><dd>y = ${escapeHtml(formatCalibration(record.calibration))}</dd>
+<dt>R²</dt><dd>${record.rSquared.toFixed(6)}</dd>
+<dt>Tare (raw)</dt><dd>${formatNumber(record.tareValue)}</dd>
+<dt>Unit</dt><dd>${escapeHtml(record.unit ? UNITS[record.unit].label : '-')}</dd>
+<dt>Reference weights</dt><dd>${record.referenceWeights.join(', ')}</dd>
+<dt>Note</dt><dd>${escapeHtml(record.note || '-')}</dd>
+</dl>
+<h2>Coefficients</h2>
+<table><thead><tr><th>Term</th><th>Value</th></tr></thead><tbody>${coefficientRows}</tbody></table>
+<h2>Calibration Points</h2>
+<table>
+<thead><tr><th>#</th><th>Reference</th><th>Raw</th><th>Tared</th><th>Std Dev (n)</th><th>Fitted</th><th>Residual</th></tr></thead>
+<tbody>${rows}</tbody>
+</table>
+<div class="signature"><div>Operator signature</div><div>Reviewer signature</div></div>
+</body>
+</html>`;
+};
+
+/**
+ * Opens the certificate in a new tab where it can be printed or saved as PDF.
+ */
+const openCalibrationCertificate = (scale: Scale, record: CalibrationRecord) => {
+    const url = URL.createObjectURL(new Blob([buildCalibrationCertificateHtml(scale, record)], { type: 'text/html' }));
+    if (!window.open(url, '_blank')) {
+        alert('Could not open the certificate. Please allow pop-ups for this page.');
+    }
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
+
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+const gzipBlob = (blob: Blob): Promise<Blob> =>
+    new Response(blob.stream().pipeThrough(new CompressionStream('gzip'))).blob();
+
+/**
+ * Quotes a delimited-text field when it contains the separator, a quote or a line break.
+ */
+const quoteField = (value: string, separator: string): string =>
+    value.includes(separator) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const buildExportMetadata = (source: ExportSource, options: ExportOptions) => ({
+    application: 'Loadcell Data Analyzer',
+    exportedAt: new Date().toISOString(),
+    source: source.name,
+    sampleCount: source.entries.length,
+    firstSampleAt: source.entries.length > 0 ? new Date(source.entries[0].timestamp).toISOString() : null,
+    precision: options.precision,
+    totals: { unit: source.plate.forceUnit, precision: source.plate.forcePrecision },
+    scales: source.scales.map(({ id, name, category, geometry, tareValue, calibration, filters, unit, precision }) => ({ id, name, category, geometry, tareValue, calibration, filters, unit, precision })),
+    alarmEvents: source.alarmEvents.map(event => ({ ...event, timestamp: new Date(event.timestamp).toISOString() })),
+    markers: source.markers.map(({ timestamp, label }) => ({ timestamp: new Date(timestamp).toISOString(), label })),
+});
+
+/**
+ * Builds the export file from a log. Rows are generated in chunks with a
+ * yield to the event loop between them, so exporting hours of samples keeps
+ * the UI responsive.
+ */
+const buildExportBlob = async (
+    source: ExportSource,
+    options: ExportOptions,
+    onProgress?: (fraction: number) => void,
+): Promise<Blob> => {
+    const { entries } = source;
+    const { columns } = options;
+    const selectedScales = source.scales
+        .map((scale, index) => ({ scale, index }))
+        .filter(({ scale }) => !options.scaleIds || options.scaleIds.includes(scale.id));
+    const startTime = entries[0]?.timestamp ?? 0;
+    const totalsPrecision = options.channelPrecision ? source.plate.forcePrecision : options.precision;
+    const scalePrecision = (scale: ScaleConfig) => options.channelPrecision ? scale.precision : options.precision;
+    const round = (value: number | undefined, precision = options.precision) => value === undefined ? null : Number(value.toFixed(precision));
+    const format = (value: number | undefined, precision = options.precision) => value === undefined ? '' : value.toFixed(precision);
+    const metadata = buildExportMetadata(source, options);
+    const parts: string[] = [];
+
+    let buildRow: (entry: LogEntry) => string;
+    if (options.format === 'jsonl') {
+        if (options.includeMetadata) parts.push(JSON.stringify({ metadata }) + '\n');
+        // Values are keyed by scale id, since names need not be unique; the metadata maps ids to names.
+        const byScale = (value: (index: number, scale: ScaleConfig) => number | null) =>
+            Object.fromEntries(selectedScales.map(({ scale, index }) => [scale.id, value(index, scale)]));
+        buildRow = entry => {
+            const row: Record<string, unknown> = {};
+            if (columns.timestamp) row.timestamp = new Date(entry.timestamp).toISOString();
+            if (columns.elapsed) row.elapsed = Number(((entry.timestamp - startTime) / 1000).toFixed(6));
+            if (columns.totals) {
+                row.totalX = round(entry.totalX, totalsPrecision);
+                row.totalY = round(entry.totalY, totalsPrecision);
             }
-        } catch (error) {
-            console.error("Failed to load scales configuration from localStorage", error);
+            if (columns.processed) row.processed = byScale((index, scale) => round(entry.processedValues[index], scalePrecision(scale)));
+            if (columns.unfiltered) row.unfiltered = byScale((index, scale) => round(getUnfilteredValue(entry, index), scalePrecision(scale)));
+            if (columns.raw) row.raw = byScale(index => round(entry.rawValues[index]));
+            return JSON.stringify(row) + '\n';
+        };
+    } else {
+        const separator = options.format === 'csv' ? ',' : '\t';
+        const joinRow = (fields: string[]) => fields.map(field => quoteField(field, separator)).join(separator) + '\n';
+
+        if (options.includeMetadata) {
+            const comment = (text: string) => `# ${text.replace(/[\r\n]+/g, ' ')}\n`;
+            parts.push(comment(metadata.application));
+            parts.push(comment(`exported_at: ${metadata.exportedAt}`));
+            parts.push(comment(`source: ${metadata.source}`));
+            parts.push(comment(`samples: ${metadata.sampleCount}`));
+            if (metadata.firstSampleAt) parts.push(comment(`first_sample_at: ${metadata.firstSampleAt}`));
+            parts.push(comment(`total_unit: ${metadata.totals.unit}`));
+            // Alarm and marker lines go before the scale list, which runs to the end of the comments.
+            metadata.alarmEvents.forEach(({ timestamp, channelName, kind, state, value, limit }) => {
+                parts.push(comment(`alarm: ${timestamp}, ${channelName}, ${kind}, ${state}, ${value}, ${limit}`));
+            });
+            metadata.markers.forEach(({ timestamp, label }) => parts.push(comment(`marker: ${timestamp}, ${label}`)));
+            parts.push(comment('scale, id, category, tare, model, coefficients (ascending powers), geometry (angle weight x y), unit, precision'));
+            metadata.scales.forEach(({ name, id, category, tareValue, calibration, geometry, unit, precision }) => {
+                const geometryText = [geometry.angle, geometry.weight, geometry.x, geometry.y].join(' ');
+                parts.push(comment(`${name}, ${id}, ${category}, ${tareValue}, ${calibration.model}, ${calibration.coefficients.join(' ')}, ${geometryText}, ${unit}, ${precision}`));
+            });
         }
-        
-        return Array.from({ length: 8 }, (_, i) => ({
-            id: i + 1,
-            name: `Scale ${i + 1}`,
-            rawValue: 0,
-            tareValue: 0,
-            calibrationSlope: 1,
-            category: 'none',
-        }));
-    });
-    
-    const [isSimulating, setIsSimulating] = useState(false);
-    const [calibratingScaleId, setCalibratingScaleId] = useState<number | null>(null);
-    
-    const [log, setLog] = useState<LogEntry[]>([]);
-    const [logBufferSize, setLogBufferSize] = useState(100);
-    const logRef = useRef(log);
-    logRef.current = log;
-    
-    const [copyButtonText, setCopyButtonText] = useState('Copy to Clipboard');
 
-    const [serialStatus, setSerialStatus] = useState<SerialStatus>({text: 'Disconnected', type: 'idle'});
-    const portRef = useRef<SerialPort | null>(null);
-    const readerRef = useRef<ReadableStreamDefaultReader<Uint8Array> | null>(null);
-    const isReadingData = isSimulating || serialStatus.type === 'connected';
+        const header: string[] = [];
+        if (columns.timestamp) header.push('Timestamp');
+        if (columns.elapsed) header.push('Elapsed_s');
+        if (columns.totals) header.push('X_Total', 'Y_Total');
+        if (columns.processed) selectedScales.forEach(({ scale }) => header.push(scale.name));
+        if (columns.unfiltered) selectedScales.forEach(({ scale }) => header.push(`${scale.name}_Unfiltered`));
+        if (columns.raw) selectedScales.forEach(({ scale }) => header.push(`${scale.name}_Raw`));
+        parts.push(joinRow(header));
+
+        buildRow = entry => {
+            const row: string[] = [];
+            if (columns.timestamp) row.push(new Date(entry.timestamp).toISOString());
+            if (columns.elapsed) row.push(((entry.timestamp - startTime) / 1000).toFixed(6));
+            if (columns.totals) row.push(format(entry.totalX, totalsPrecision), format(entry.totalY, totalsPrecision));
+            if (columns.processed) selectedScales.forEach(({ scale, index }) => row.push(format(entry.processedValues[index], scalePrecision(scale))));
+            if (columns.unfiltered) selectedScales.forEach(({ scale, index }) => row.push(format(getUnfilteredValue(entry, index), scalePrecision(scale))));
+            if (columns.raw) selectedScales.forEach(({ index }) => row.push(format(entry.rawValues[index])));
+            return joinRow(row);
+        };
+    }
+
+    for (let start = 0; start < entries.length; start += EXPORT_CHUNK_ROWS) {
+        parts.push(entries.slice(start, start + EXPORT_CHUNK_ROWS).map(buildRow).join(''));
+        onProgress?.(Math.min(1, (start + EXPORT_CHUNK_ROWS) / entries.length));
+        await yieldToEventLoop();
+    }
+
+    const blob = new Blob(parts, { type: EXPORT_FORMATS[options.format].mimeType });
+    return options.gzip ? gzipBlob(blob) : blob;
+};
+
+const getExportFilename = (source: ExportSource, options: ExportOptions): string => {
+    const date = new Date(source.entries[0]?.timestamp ?? Date.now()).toISOString().slice(0, 19).replace(/:/g, '-');
+    return `${toFileSafeName(source.name)}_${date}.${EXPORT_FORMATS[options.format].extension}${options.gzip ? '.gz' : ''}`;
+};
+
+/**
+ * Reads a text file, transparently decompressing `.gz` files.
+ */
+const readTextFile = async (file: File): Promise<string> => {
+    if (!file.name.toLowerCase().endsWith('.gz')) return file.text();
+    if (typeof DecompressionStream === 'undefined') {
+        throw new Error('This browser cannot decompress .gz files.');
+    }
+    return new Response(file.stream().pipeThrough(new DecompressionStream('gzip'))).text();
+};
+
+/**
+ * Standard normal random number (Box-Muller).
+ */
+const randomGaussian = (): number => {
+    const u = 1 - Math.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * Math.random());
+};
+
+/**
+ * Validates a simulator script, filling in defaults for omitted settings.
+ * @throws Error listing every problem found.
+ */
+const parseSimulatorConfig = (text: string): SimulatorConfig => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`Invalid JSON: ${(error as Error).message}`);
+    }
+    if (!isPlainObject(data)) throw new Error('The simulator script must be a JSON object.');
+
+    const errors: string[] = [];
+    const config: SimulatorConfig = {
+        ...DEFAULT_SIMULATOR_CONFIG,
+        ...data,
+        defaultChannel: { ...DEFAULT_SIMULATOR_CHANNEL, ...(isPlainObject(data.defaultChannel) ? data.defaultChannel : {}) },
+    };
+
+    if (!isFiniteNumber(config.sampleRateHz) || config.sampleRateHz <= 0 || config.sampleRateHz > 2000) errors.push('sampleRateHz must be a number between 0 and 2000');
+    (['dropoutRate', 'malformedRate'] as const).forEach(key => {
+        if (!isFiniteNumber(config[key]) || config[key] < 0 || config[key] > 1) errors.push(`${key} must be a probability between 0 and 1`);
+    });
+    if (!isFiniteNumber(config.dropoutDuration) || config.dropoutDuration < 0) errors.push('dropoutDuration must be a non-negative number');
+    Object.entries(config.defaultChannel).forEach(([key, value]) => {
+        if (!isFiniteNumber(value)) errors.push(`defaultChannel.${key} must be a number`);
+    });
+    if (isFiniteNumber(config.defaultChannel.thermalPeriod) && config.defaultChannel.thermalPeriod <= 0) errors.push('defaultChannel.thermalPeriod must be a positive number of seconds');
+    if (!Array.isArray(config.channels)) {
+        errors.push('channels must be an array');
+    } else {
+        config.channels.forEach((channel, i) => {
+            if (!isPlainObject(channel)) errors.push(`channels[${i}] must be an object`);
+            else Object.entries(channel).forEach(([key, value]) => {
+                if (!isFiniteNumber(value)) errors.push(`channels[${i}].${key} must be a number`);
+                else if (key === 'thermalPeriod' && value <= 0) errors.push(`channels[${i}].thermalPeriod must be a positive number of seconds`);
+            });
+        });
+    }
+
+    if (!Array.isArray(config.segments)) {
+        errors.push('segments must be an array');
+    } else {
+        const requiredFields: Record<SimulatorSegment['type'], string[]> = {
+            step: ['load'],
+            ramp: ['from', 'to'],
+            sine: ['offset', 'amplitude', 'period'],
+            move: ['load'],
+        };
+        config.segments.forEach((segment: unknown, i) => {
+            const path = `segments[${i}]`;
+            if (!isPlainObject(segment) || !isOwnKey(requiredFields, segment.type)) {
+                errors.push(`${path}.type must be one of ${Object.keys(requiredFields).join(', ')}`);
+                return;
+            }
+            if (!isFiniteNumber(segment.duration) || segment.duration <= 0) errors.push(`${path}.duration must be a positive number of seconds`);
+            requiredFields[segment.type].forEach(field => {
+                if (!isFiniteNumber(segment[field])) errors.push(`${path}.${field} must be a number`);
+            });
+            if (segment.type === 'sine' && isFiniteNumber(segment.period) && segment.period <= 0) errors.push(`${path}.period must be a positive number of seconds`);
+            if (segment.type === 'move') {
+                ['from', 'to'].forEach(field => {
+                    const point = segment[field];
+                    if (!Array.isArray(point) || point.length !== 2 || !point.every(isFiniteNumber)) errors.push(`${path}.${field} must be an [x, y] pair`);
+                });
+            } else if (segment.channels !== undefined && (!Array.isArray(segment.channels) || !segment.channels.every(Number.isInteger))) {
+                errors.push(`${path}.channels must be a list of 1-based channel numbers`);
+            }
+        });
+    }
+
+    if (errors.length > 0) throw new Error(errors.join('\n'));
+    return config;
+};
+
+const loadSimulatorConfigText = (): string => {
+    try {
+        const saved = localStorage.getItem(SIMULATOR_STORAGE_KEY);
+        if (saved) {
+            parseSimulatorConfig(saved);
+            return saved;
+        }
+    } catch (error) {
+        console.error("Failed to load simulator script from localStorage", error);
+    }
+    return JSON.stringify(DEFAULT_SIMULATOR_CONFIG, null, 2);
+};
+
+/**
+ * Load on each channel at a point in the profile. Loads on listed channels
+ * (or all, if none are listed) are split equally; a moving load is shared
+ * by inverse squared distance to each channel's position.
+ */
+const getSimulatedLoads = (config: SimulatorConfig, channels: SimulatorChannel[], time: number): number[] => {
+    const loads = Array(channels.length).fill(0);
+    const totalDuration = config.segments.reduce((sum, segment) => sum + segment.duration, 0);
+    if (totalDuration === 0 || (!config.loop && time >= totalDuration)) return loads;
+
+    let t = config.loop ? time % totalDuration : time;
+    const segment = config.segments.find(candidate => {
+        if (t < candidate.duration) return true;
+        t -= candidate.duration;
+        return false;
+    });
+    if (!segment) return loads;
+    const progress = t / segment.duration;
+
+    if (segment.type === 'move') {
+        const px = segment.from[0] + (segment.to[0] - segment.from[0]) * progress;
+        const py = segment.from[1] + (segment.to[1] - segment.from[1]) * progress;
+        const weights = channels.map(channel => 1 / ((channel.x - px) ** 2 + (channel.y - py) ** 2 + 1e-3));
+        const weightSum = weights.reduce((sum, w) => sum + w, 0);
+        return weights.map(w => segment.load * w / weightSum);
+    }
+
+    const load = segment.type === 'step' ? segment.load
+        : segment.type === 'ramp' ? segment.from + (segment.to - segment.from) * progress
+        : segment.offset + segment.amplitude * Math.sin(2 * Math.PI * t / segment.period);
+    const targets = segment.channels?.map(n => n - 1).filter(i => i >= 0 && i < channels.length) ?? channels.map((_, i) => i);
+    targets.forEach(i => { loads[i] = load / targets.length; });
+    return loads;
+};
+
+/**
+ * Writes channel values as one line in the configured protocol, the way a
+ * device would. Delimited columns not mapped to a scale carry the sequence
+ * number, standing in for a timestamp or counter column.
+ */
+const formatSimulatedLine = (values: number[], protocol: ProtocolConfig, sequence: number): string => {
+    const keys = protocol.columnMap.map(key => key.trim());
+    const text = (value: number) => value.toFixed(4);
+
+    if (protocol.format === 'keyValue') {
+        return keys.map((key, i) => `${key}${protocol.keyValueSeparator}${text(values[i])}`).join(', ');
+    }
+    if (protocol.format === 'json') {
+        type JsonTree = { [key: string]: number | JsonTree };
+        const root: JsonTree = {};
+        keys.forEach((key, i) => {
+            const path = key.split('.');
+            let node = root;
+            path.slice(0, -1).forEach(part => {
+                const child = node[part];
+                node = typeof child === 'object' ? child : node[part] = {};
+            });
+            node[path[path.length - 1]] = Number(text(values[i]));
+        });
+        return JSON.stringify({ seq: sequence, ...root });
+    }
+
+    const columns = keys.map(key => parseInt(key, 10));
+    const width = Math.max(0, ...columns.filter(column => column > 0));
+    const fields = Array.from({ length: width }, () => String(sequence));
+    columns.forEach((column, i) => { if (column > 0) fields[column - 1] = text(values[i]); });
+    return fields.join(protocol.delimiter === ' ' ? ' ' : protocol.delimiter);
+};
+
+/**
+ * Corrupts a line the ways serial links do: truncation, garbage bytes or a non-numeric field.
+ */
+const corruptLine = (line: string): string => {
+    const kind = Math.floor(Math.random() * 3);
+    if (kind === 0) return line.slice(0, Math.floor(Math.random() * line.length));
+    if (kind === 1) return line.replace(/\d/, '\uFFFD#');
+    return `ERR ${line}`;
+};
+
+/**
+ * Advances the simulator by one sample.
+ * @returns One line per configured device, each carrying only that device's
+ * fields, or null during a dropout.
+ */
+const simulateLines = (config: SimulatorConfig, state: SimulatorState, channelCount: number, protocol: ProtocolConfig): string[] | null => {
+    state.time += 1 / config.sampleRateHz;
+    state.sequence++;
+
+    if (state.time < state.dropoutUntil) return null;
+    if (Math.random() < config.dropoutRate) {
+        state.dropoutUntil = state.time + config.dropoutDuration;
+        return null;
+    }
+
+    const channels = Array.from({ length: channelCount }, (_, i) => ({ ...config.defaultChannel, ...config.channels[i] }));
+    const loads = getSimulatedLoads(config, channels, state.time);
+    const values = channels.map((channel, i) =>
+        channel.baseline
+        + channel.gain * loads[i]
+        + channel.drift * state.time
+        + channel.thermalAmplitude * Math.sin(2 * Math.PI * state.time / channel.thermalPeriod)
+        + channel.noise * randomGaussian()
+    );
+
+    return protocol.devices.map((_, device) => {
+        const onDevice = (__: unknown, i: number) => protocol.deviceMap[i] === device;
+        const deviceProtocol = { ...protocol, columnMap: protocol.columnMap.filter(onDevice) };
+        const line = formatSimulatedLine(values.filter(onDevice), deviceProtocol, state.sequence);
+        return Math.random() < config.malformedRate ? corruptLine(line) : line;
+    });
+};
+
+/**
+ * Summarises one channel over the statistics window.
+ * @param times Sample times in seconds.
+ * @param baselineMean Mean drift is measured from, or null for no drift.
+ */
+const calculateChannelStatistics = (
+    times: number[],
+    values: number[],
+    baselineMean: number | null,
+    settings: StatisticsSettings,
+): ChannelStatistics => {
+    const count = values.length;
+    const mean = calculateMean(values);
+    const stdDev = calculateStandardDeviation(values);
+    const min = count > 0 ? values.reduce((a, b) => Math.min(a, b)) : 0;
+    const max = count > 0 ? values.reduce((a, b) => Math.max(a, b)) : 0;
+
+    // Least-squares trend against time, so the slope is in units per second.
+    const meanTime = calculateMean(times);
+    let sxx = 0;
+    let sxy = 0;
+    times.forEach((t, i) => {
+        sxx += (t - meanTime) ** 2;
+        sxy += (t - meanTime) * (values[i] - mean);
+    });
+    const slopePerSecond = sxx > 0 ? sxy / sxx : 0;
+    const residualSquares = values.reduce((sum, v, i) => sum + (v - (mean + slopePerSecond * (times[i] - meanTime))) ** 2, 0);
+    const rmsNoise = count > 0 ? Math.sqrt(residualSquares / count) : 0;
+
+    return {
+        count,
+        mean,
+        stdDev,
+        min,
+        max,
+        peakToPeak: max - min,
+        rmsNoise,
+        slopePerSecond,
+        drift: baselineMean === null ? null : mean - baselineMean,
+        isStable: count < MIN_STATISTICS_SAMPLES ? null
+            : stdDev <= settings.maxStdDev && Math.abs(slopePerSecond) <= settings.maxSlopePerSecond,
+    };
+};
+
+/**
+ * Statistics for every scale and both totals over the trailing window of the log.
+ * With the unfiltered source, totals are resolved again from the unfiltered values.
+ */
+const calculateLogStatistics = (
+    log: LogEntry[],
+    scales: Scale[],
+    settings: StatisticsSettings,
+    plate: PlateConfig,
+    baseline: DriftBaseline | null,
+): LogStatistics => {
+    const windowMs = settings.windowSeconds * 1000;
+    const lastTimestamp = log.length > 0 ? log[log.length - 1].timestamp : 0;
+    const firstTimestamp = log.length > 0 ? log[0].timestamp : 0;
+    const recent = log.filter(entry => entry.timestamp >= lastTimestamp - windowMs);
+    const times = recent.map(entry => (entry.timestamp - firstTimestamp) / 1000);
+
+    const channel = (value: (entry: LogEntry) => number, baselineMean: number | undefined) =>
+        calculateChannelStatistics(times, recent.map(value), baselineMean ?? null, settings);
+
+    if (settings.source === 'unfiltered') {
+        const unfilteredTotals = new Map<LogEntry, ForceResultant>();
+        const totals = (entry: LogEntry) => {
+            let resultant = unfilteredTotals.get(entry);
+            if (!resultant) {
+                resultant = resolveForces(scales.map((_, i) => getUnfilteredValue(entry, i) ?? 0), scales, plate);
+                unfilteredTotals.set(entry, resultant);
+            }
+            return resultant;
+        };
+        return {
+            scales: scales.map((scale, i) => channel(entry => getUnfilteredValue(entry, i) ?? 0, baseline?.scales[scale.id])),
+            totalX: channel(entry => totals(entry).fx, baseline?.totalX),
+            totalY: channel(entry => totals(entry).fy, baseline?.totalY),
+        };
+    }
+    return {
+        scales: scales.map((scale, i) => channel(entry => entry.processedValues[i] ?? 0, baseline?.scales[scale.id])),
+        totalX: channel(entry => entry.totalX, baseline?.totalX),
+        totalY: channel(entry => entry.totalY, baseline?.totalY),
+    };
+};
+
+/**
+ * Splits the log at every marker inside it. Each segment is named after the
+ * marker it starts at; the one before the first marker is "Start".
+ */
+const splitLogAtMarkers = (log: LogEntry[], markers: LogMarker[]): LogSegment[] => {
+    if (log.length === 0) return [];
+    const timestamps = log.map(entry => entry.timestamp);
+    const first = timestamps[0];
+    const last = timestamps[timestamps.length - 1];
+    const inside = markers
+        .filter(marker => marker.timestamp >= first && marker.timestamp <= last)
+        .sort((a, b) => a.timestamp - b.timestamp);
+    const bounds = inside[0]?.timestamp === first ? inside : [{ label: 'Start', timestamp: first }, ...inside];
+    return bounds.map((bound, i) => {
+        const next = bounds[i + 1];
+        const entries = log.slice(findTimeIndex(timestamps, bound.timestamp), next ? findTimeIndex(timestamps, next.timestamp) : log.length);
+        return { label: bound.label, start: bound.timestamp, end: next?.timestamp ?? last, entries };
+    });
+};
+
+/**
+ * Lists the limits a channel breaches.
+ * @param rate Units per second, or null while no rate is available yet.
+ * @param overloadLimit Magnitude at which the cell counts as overloaded, or null.
+ */
+const checkLimits = (
+    value: number,
+    rate: number | null,
+    limits: ChannelLimits,
+    overloadLimit: number | null,
+): { kind: AlarmKind; value: number; limit: number }[] => {
+    const breaches: { kind: AlarmKind; value: number; limit: number }[] = [];
+    if (limits.upper !== null && value > limits.upper) breaches.push({ kind: 'upper', value, limit: limits.upper });
+    if (limits.lower !== null && value < limits.lower) breaches.push({ kind: 'lower', value, limit: limits.lower });
+    if (limits.maxRate !== null && rate !== null && Math.abs(rate) > limits.maxRate) breaches.push({ kind: 'rate', value: rate, limit: limits.maxRate });
+    if (overloadLimit !== null && Math.abs(value) >= overloadLimit) breaches.push({ kind: 'overload', value, limit: overloadLimit });
+    return breaches;
+};
+
+const buildAlarmEventsCsv = (events: AlarmEvent[]): string => {
+    const rows = events.map(event => [
+        new Date(event.timestamp).toISOString(),
+        quoteField(event.channelName, ','),
+        ALARM_KIND_LABELS[event.kind],
+        event.state,
+        String(event.value),
+        String(event.limit),
+    ].join(','));
+    return ['Timestamp,Channel,Alarm,State,Value,Limit', ...rows].join('\n') + '\n';
+};
+
+const isSequenceChannel = (channel: unknown): boolean =>
+    channel === 'totalX' || channel === 'totalY' || (typeof channel === 'string' && /^scale-\d+$/.test(channel));
+
+/** Checks the fields of one sequence step; problems are appended to `errors` prefixed with `path`. */
+const validateSequenceStep = (step: unknown, path: string, errors: string[]) => {
+    if (!isPlainObject(step)) {
+        errors.push(`${path} must be an object`);
+        return;
+    }
+    switch (step.type) {
+        case 'prompt':
+            if (typeof step.message !== 'string') errors.push(`${path}.message must be a string`);
+            break;
+        case 'waitStable':
+            if (!isSequenceChannel(step.channel)) errors.push(`${path}.channel must be totalX, totalY or scale-<id>`);
+            if (!isFiniteNumber(step.timeout) || step.timeout <= 0) errors.push(`${path}.timeout must be a positive number of seconds`);
+            break;
+        case 'tare':
+            if (step.scaleIds !== undefined && (!Array.isArray(step.scaleIds) || !step.scaleIds.every(Number.isInteger))) {
+                errors.push(`${path}.scaleIds must be a list of scale ids`);
+            }
+            break;
+        case 'record':
+            if (!isFiniteNumber(step.duration) || step.duration <= 0) errors.push(`${path}.duration must be a positive number of seconds`);
+            break;
+        case 'assert':
+            if (!isSequenceChannel(step.channel)) errors.push(`${path}.channel must be totalX, totalY or scale-<id>`);
+            if (!isOwnKey(SEQUENCE_STATISTIC_LABELS, step.statistic)) errors.push(`${path}.statistic must be one of ${Object.keys(SEQUENCE_STATISTIC_LABELS).join(', ')}`);
+            if ((step.min !== undefined && !isFiniteNumber(step.min)) || (step.max !== undefined && !isFiniteNumber(step.max))) {
+                errors.push(`${path}.min and max must be numbers`);
+            } else if (step.min === undefined && step.max === undefined) {
+                errors.push(`${path} needs a min, a max or both`);
+            }
+            break;
+        default:
+            errors.push(`${path}.type must be one of prompt, waitStable, tare, record, assert`);
+    }
+};
+
+/**
+ * Validates a test sequence, e.g. one pasted in or shared as a file.
+ * @throws An error listing every problem found.
+ */
+const parseTestSequence = (data: unknown): TestSequence => {
+    if (!isPlainObject(data)) throw new Error('A test sequence must be a JSON object.');
+    const errors: string[] = [];
+    if (typeof data.name !== 'string' || !data.name.trim()) errors.push('name must be a non-empty string');
+    if (!Array.isArray(data.steps) || data.steps.length === 0) {
+        errors.push('steps must be a non-empty array');
+    } else {
+        let hasRecording = false;
+        data.steps.forEach((step: unknown, i: number) => {
+            const path = `steps[${i}]`;
+            validateSequenceStep(step, path, errors);
+            if (!isPlainObject(step)) return;
+            if (step.type === 'record') hasRecording = true;
+            else if (step.type === 'assert' && isOwnKey(SEQUENCE_STATISTIC_LABELS, step.statistic) && step.statistic !== 'value' && !hasRecording) errors.push(`${path} needs a record step before it`);
+        });
+    }
+    if (errors.length > 0) throw new Error(errors.join('\n'));
+    return { name: (data.name as string).trim(), steps: data.steps as SequenceStep[] };
+};
+
+/**
+ * Validates a saved test report.
+ * @throws An error listing every problem found.
+ */
+const parseSequenceRun = (data: unknown): SequenceRun => {
+    if (!isPlainObject(data)) throw new Error('A test report must be a JSON object.');
+    const errors: string[] = [];
+    ['id', 'sequenceName', 'operator'].forEach(key => {
+        if (typeof data[key] !== 'string') errors.push(`${key} must be a string`);
+    });
+    if (!isFiniteNumber(data.startedAt) || !isFiniteNumber(data.endedAt)) errors.push('startedAt and endedAt must be timestamps');
+    if (data.result !== 'passed' && data.result !== 'failed' && data.result !== 'aborted') errors.push('result must be passed, failed or aborted');
+    if (!Array.isArray(data.steps)) {
+        errors.push('steps must be an array');
+    } else {
+        data.steps.forEach((result: unknown, i: number) => {
+            const path = `steps[${i}]`;
+            if (!isPlainObject(result)) {
+                errors.push(`${path} must be an object`);
+                return;
+            }
+            validateSequenceStep(result.step, `${path}.step`, errors);
+            if (result.status !== 'passed' && result.status !== 'failed' && result.status !== 'skipped') errors.push(`${path}.status must be passed, failed or skipped`);
+            if (typeof result.detail !== 'string') errors.push(`${path}.detail must be a string`);
+            if (result.measured !== null && !isFiniteNumber(result.measured)) errors.push(`${path}.measured must be a number or null`);
+            if (result.unit !== null && !isOwnKey(UNITS, result.unit)) errors.push(`${path}.unit must be one of ${Object.keys(UNITS).join(', ')} or null`);
+            if (!isFiniteNumber(result.finishedAt)) errors.push(`${path}.finishedAt must be a timestamp`);
+        });
+    }
+    if (errors.length > 0) throw new Error(errors.join('\n'));
+    return data as unknown as SequenceRun;
+};
+
+const loadSequences = (): TestSequence[] => {
+    try {
+        const saved = localStorage.getItem(SEQUENCES_STORAGE_KEY);
+        if (saved) return JSON.parse(saved).map(parseTestSequence);
+    } catch (error) {
+        console.error("Failed to load test sequences from localStorage", error);
+    }
+    return [EXAMPLE_SEQUENCE];
+};
+
+const loadSequenceRuns = (): SequenceRun[] => {
+    try {
+        const saved = localStorage.getItem(SEQUENCE_RUNS_STORAGE_KEY);
+        if (saved) return JSON.parse(saved).map(parseSequenceRun);
+    } catch (error) {
+        console.error("Failed to load test reports from localStorage", error);
+    }
+    return [];
+};
+
+/**
+ * Looks up a sequence channel: its name, unit, value in a log entry and
+ * live statistics. Null if it names a scale that doesn't exist.
+ */
+const resolveSequenceChannel = (channel: string, scales: Scale[], plate: PlateConfig) => {
+    if (channel === 'totalX' || channel === 'totalY') {
+        return {
+            name: channel === 'totalX' ? 'X Total' : 'Y Total',
+            unit: plate.forceUnit,
+            precision: plate.forcePrecision,
+            value: (entry: LogEntry) => entry[channel],
+            statistics: (statistics: LogStatistics) => statistics[channel],
+        };
+    }
+    const index = scales.findIndex(scale => `scale-${scale.id}` === channel);
+    if (index < 0) return null;
+    return {
+        name: scales[index].name,
+        unit: scales[index].unit,
+        precision: scales[index].precision,
+        value: (entry: LogEntry) => entry.processedValues[index],
+        statistics: (statistics: LogStatistics) => statistics.scales[index],
+    };
+};
+
+const describeSequenceStep = (step: SequenceStep): string => {
+    switch (step.type) {
+        case 'prompt': return `Prompt: ${step.message}`;
+        case 'waitStable': return `Wait for ${step.channel} to be stable (up to ${step.timeout} s)`;
+        case 'tare': return step.scaleIds ? `Tare scales ${step.scaleIds.join(', ')}` : 'Tare all scales';
+        case 'record': return `Record for ${step.duration} s`;
+        case 'assert': return `Check ${step.channel} ${SEQUENCE_STATISTIC_LABELS[step.statistic]} within ${step.min ?? '-\u221e'} to ${step.max ?? '\u221e'}`;
+    }
+};
+
+const buildSequenceReportCsv = (run: SequenceRun): string => {
+    const rows = run.steps.map((result, i) => [
+        String(i + 1),
+        quoteField(describeSequenceStep(result.step), ','),
+        result.status,
+        result.measured === null ? '' : String(result.measured),
+        result.unit ?? '',
+        quoteField(result.detail, ','),
+        new Date(result.finishedAt).toISOString(),
+    ].join(','));
+    return [
+        `# Test sequence: ${run.sequenceName}`,
+        `# Operator: ${run.operator || '-'}`,
+        `# Started: ${new Date(run.startedAt).toISOString()}`,
+        `# Ended: ${new Date(run.endedAt).toISOString()}`,
+        `# Result: ${run.result}`,
+        'Step,Description,Status,Measured,Unit,Detail,Finished',
+        ...rows,
+    ].join('\n') + '\n';
+};
+
+const buildSequenceReportJson = (run: SequenceRun): string => JSON.stringify({
+    ...run,
+    startedAt: new Date(run.startedAt).toISOString(),
+    endedAt: new Date(run.endedAt).toISOString(),
+    steps: run.steps.map(result => ({ ...result, finishedAt: new Date(result.finishedAt).toISOString() })),
+}, null, 2);
+
+let alarmAudioContext: AudioContext | null = null;
+
+/** Short beep for a raised alarm. Browsers without Web Audio stay silent. */
+const playAlarmTone = () => {
+    if (typeof AudioContext === 'undefined') return;
+    try {
+        alarmAudioContext ??= new AudioContext();
+        const oscillator = alarmAudioContext.createOscillator();
+        const gain = alarmAudioContext.createGain();
+        oscillator.frequency.value = 880;
+        gain.gain.value = 0.2;
+        oscillator.connect(gain).connect(alarmAudioContext.destination);
+        oscillator.start();
+        oscillator.stop(alarmAudioContext.currentTime + 0.2);
+    } catch (error) {
+        console.error("Failed to play the alarm tone", error);
+    }
+};
+
+const loadStatisticsSettings = (): StatisticsSettings => {
+    try {
+        const saved = localStorage.getItem(STATISTICS_SETTINGS_STORAGE_KEY);
+        if (saved) {
+            const data = JSON.parse(saved);
+            if (!isPlainObject(data)) throw new Error('Statistics settings must be an object.');
+            // Fields that are missing or invalid fall back to their defaults one by one.
+            const positive = (value: unknown, fallback: number) =>
+                typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+            return {
+                windowSeconds: positive(data.windowSeconds, DEFAULT_STATISTICS_SETTINGS.windowSeconds),
+                maxStdDev: positive(data.maxStdDev, DEFAULT_STATISTICS_SETTINGS.maxStdDev),
+                maxSlopePerSecond: positive(data.maxSlopePerSecond, DEFAULT_STATISTICS_SETTINGS.maxSlopePerSecond),
+                source: data.source === 'unfiltered' ? 'unfiltered' : 'filtered',
+            };
+        }
+    } catch (error) {
+        console.error("Failed to load statistics settings from localStorage", error);
+    }
+    return DEFAULT_STATISTICS_SETTINGS;
+};
+
+/** Seconds to average readings over when taring; 0 tares on the latest reading. */
+const loadTareWindowSeconds = (): number => {
+    try {
+        const saved = Number(localStorage.getItem(TARE_WINDOW_STORAGE_KEY));
+        if (saved > 0) return saved;
+    } catch (error) {
+        console.error("Failed to load tare window from localStorage", error);
+    }
+    return 0;
+};
+
+const loadSerialSettings = (): SerialSettings => {
+    try {
+        const saved = localStorage.getItem(SERIAL_SETTINGS_STORAGE_KEY);
+        if (saved) {
+            const data = JSON.parse(saved);
+            if (!isPlainObject(data)) throw new Error('Serial settings must be an object.');
+            // Fields that are missing or invalid fall back to their defaults one by one.
+            const positiveInteger = (value: unknown, fallback: number) =>
+                Number.isInteger(value) && (value as number) > 0 ? value as number : fallback;
+            const oneOf = <T,>(value: unknown, allowed: readonly T[], fallback: T): T =>
+                allowed.includes(value as T) ? value as T : fallback;
+            const flag = (value: unknown, fallback: boolean) => typeof value === 'boolean' ? value : fallback;
+            return {
+                baudRate: positiveInteger(data.baudRate, DEFAULT_SERIAL_SETTINGS.baudRate),
+                dataBits: oneOf(data.dataBits, [7, 8] as const, DEFAULT_SERIAL_SETTINGS.dataBits),
+                stopBits: oneOf(data.stopBits, [1, 2] as const, DEFAULT_SERIAL_SETTINGS.stopBits),
+                parity: oneOf(data.parity, ['none', 'even', 'odd'] as const, DEFAULT_SERIAL_SETTINGS.parity),
+                flowControl: oneOf(data.flowControl, ['none', 'hardware'] as const, DEFAULT_SERIAL_SETTINGS.flowControl),
+                bufferSize: positiveInteger(data.bufferSize, DEFAULT_SERIAL_SETTINGS.bufferSize),
+                autoReconnect: flag(data.autoReconnect, DEFAULT_SERIAL_SETTINGS.autoReconnect),
+                reconnectOnLoad: flag(data.reconnectOnLoad, DEFAULT_SERIAL_SETTINGS.reconnectOnLoad),
+            };
+        }
+    } catch (error) {
+        console.error("Failed to load serial settings from localStorage", error);
+    }
+    return DEFAULT_SERIAL_SETTINGS;
+};
+
+const toSerialOptions = ({ baudRate, dataBits, stopBits, parity, flowControl, bufferSize }: SerialSettings): SerialOptions =>
+    ({ baudRate, dataBits, stopBits, parity, flowControl, bufferSize });
+
+/** Remembered ports indexed by device slot; entries that aren't a valid port are left empty. */
+const loadRememberedPorts = (): (RememberedPort | null)[] => {
+    try {
+        const saved = localStorage.getItem(SERIAL_PORT_STORAGE_KEY);
+        if (!saved) return [];
+        const parsed: unknown = JSON.parse(saved);
+        // Single-device versions stored one port object.
+        return (Array.isArray(parsed) ? parsed : [parsed]).map(port => isPlainObject(port)
+            && (port.usbVendorId === undefined || Number.isInteger(port.usbVendorId))
+            && (port.usbProductId === undefined || Number.isInteger(port.usbProductId))
+            ? { usbVendorId: port.usbVendorId as number | undefined, usbProductId: port.usbProductId as number | undefined, autoConnect: port.autoConnect === true }
+            : null);
+    } catch (error) {
+        console.error("Failed to load the remembered serial ports", error);
+        return [];
+    }
+};
+
+const saveRememberedPort = (device: number, port: RememberedPort | null) => {
+    try {
+        const ports = loadRememberedPorts();
+        ports[device] = port;
+        localStorage.setItem(SERIAL_PORT_STORAGE_KEY, JSON.stringify(Array.from(ports, p => p ?? null)));
+    } catch (error) {
+        console.error("Failed to save the remembered serial port", error);
+    }
+};
+
+/**
+ * Finds the port remembered for a device slot among those the user has
+ * already granted. The slot's last port is used while it is still granted,
+ * which tells identical adapters apart. A re-plugged USB adapter is a new
+ * SerialPort object, so otherwise ports are matched by USB vendor and product
+ * id; ports already open in other slots are skipped so identical adapters
+ * don't collide.
+ */
+const findRememberedPort = async (device: number, openPorts: SerialPort[], lastPort: SerialPort | null = null): Promise<SerialPort | null> => {
+    const remembered = loadRememberedPorts()[device];
+    if (!remembered || !('serial' in navigator)) return null;
+    const ports = await navigator.serial.getPorts();
+    if (lastPort && ports.includes(lastPort) && !openPorts.includes(lastPort)) return lastPort;
+    return ports.find(port => {
+        const info = port.getInfo();
+        return !openPorts.includes(port) && info.usbVendorId === remembered.usbVendorId && info.usbProductId === remembered.usbProductId;
+    }) ?? null;
+};
+
+const formatBytes = (bytes: number): string =>
+    bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} kB` : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+const exportCalibrationRecordJson = (scale: Scale, record: CalibrationRecord) => {
+    const content = JSON.stringify({ scale: { id: scale.id, name: scale.name }, ...record }, null, 2);
+    downloadFile(`calibration_${toFileSafeName(scale.name)}_${record.appliedAt.slice(0, 10)}.json`, content, 'application/json');
+};
+
+
+// --- React Components ---
+
+/** Index of the first timestamp at or after `time` (timestamps ascending). */
+const findTimeIndex = (timestamps: number[], time: number): number => {
+    let low = 0;
+    let high = timestamps.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (timestamps[mid] < time) low = mid + 1;
+        else high = mid;
+    }
+    return low;
+};
+
+/**
+ * Evenly spaced round values (steps of 1, 2 or 5 x 10^n) covering a range.
+ * @returns The tick values and the decimals needed to print them.
+ */
+const getNiceTicks = (min: number, max: number, count: number): { values: number[]; decimals: number } => {
+    const rawStep = (max - min) / count;
+    if (!(rawStep > 0)) return { values: [min], decimals: 0 };
+    const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+    const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rawStep)!;
+    const values: number[] = [];
+    for (let value = Math.ceil(min / step) * step; value <= max; value += step) {
+        values.push(value);
+    }
+    return { values, decimals: Math.max(0, -Math.floor(Math.log10(step))) };
+};
+
+/** Time of day with the given number of fractional second digits. */
+const formatChartTime = (timestamp: number, decimals: number): string => {
+    const date = new Date(timestamp);
+    const time = date.toLocaleTimeString([], { hour12: false });
+    return decimals > 0 ? `${time}.${String(date.getMilliseconds()).padStart(3, '0').slice(0, Math.min(decimals, 3))}` : time;
+};
+
+/**
+ * Draws the visible part of each series, thinning it to a min/max pair per
+ * pixel column when there are more points than columns so peaks survive.
+ * Markers are drawn as labelled vertical lines.
+ */
+const drawChart = (
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    timestamps: number[],
+    series: { values: number[]; color: string; dashed?: boolean }[],
+    view: ChartRange,
+    yRange: ChartRange,
+    hoverIndex: number | null,
+    markers: LogMarker[],
+    colors: { text: string; grid: string; cursor: string; marker: string },
+) => {
+    const { left, right, top, bottom } = CHART_MARGIN;
+    const plotWidth = width - left - right;
+    const plotHeight = height - top - bottom;
+    const toX = (t: number) => left + (t - view.min) / (view.max - view.min) * plotWidth;
+    const toY = (v: number) => top + (1 - (v - yRange.min) / (yRange.max - yRange.min)) * plotHeight;
+
+    ctx.clearRect(0, 0, width, height);
+    ctx.font = '11px sans-serif';
+    ctx.lineWidth = 1;
+
+    // Grid and tick labels.
+    ctx.strokeStyle = colors.grid;
+    ctx.fillStyle = colors.text;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    const yTicks = getNiceTicks(yRange.min, yRange.max, Math.max(2, Math.floor(plotHeight / 40)));
+    yTicks.values.forEach(value => {
+        const y = Math.round(toY(value)) + 0.5;
+        ctx.beginPath();
+        ctx.moveTo(left, y);
+        ctx.lineTo(width - right, y);
+        ctx.stroke();
+        ctx.fillText(value.toFixed(yTicks.decimals), left - 6, y);
+    });
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    const timeTicks = getNiceTicks(view.min / 1000, view.max / 1000, Math.max(2, Math.floor(plotWidth / 90)));
+    timeTicks.values.forEach(seconds => {
+        const x = Math.round(toX(seconds * 1000)) + 0.5;
+        ctx.beginPath();
+        ctx.moveTo(x, top);
+        ctx.lineTo(x, height - bottom);
+        ctx.stroke();
+        ctx.fillText(formatChartTime(seconds * 1000, timeTicks.decimals), x, height - bottom + 6);
+    });
+    ctx.strokeRect(left + 0.5, top + 0.5, plotWidth, plotHeight);
+
+    // One point either side of the view so lines run to the edges.
+    const first = Math.max(0, findTimeIndex(timestamps, view.min) - 1);
+    const last = Math.min(timestamps.length - 1, findTimeIndex(timestamps, view.max));
+    const pointsInView = last - first + 1;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(left, top, plotWidth, plotHeight);
+    ctx.clip();
+    ctx.lineWidth = 1.5;
+    series.forEach(({ values, color, dashed }) => {
+        ctx.strokeStyle = color;
+        ctx.setLineDash(dashed ? [4, 3] : []);
+        ctx.beginPath();
+        if (pointsInView > plotWidth * 2) {
+            let column = -1;
+            let low = Infinity;
+            let high = -Infinity;
+            const flush = () => {
+                if (column < 0 || low > high) return;
+                ctx.moveTo(column + 0.5, toY(high));
+                ctx.lineTo(column + 0.5, toY(low));
+            };
+            for (let i = first; i <= last; i++) {
+                const x = Math.floor(toX(timestamps[i]));
+                if (x !== column) {
+                    flush();
+                    column = x;
+                    low = Infinity;
+                    high = -Infinity;
+                }
+                if (Number.isFinite(values[i])) {
+                    low = Math.min(low, values[i]);
+                    high = Math.max(high, values[i]);
+                }
+            }
+            flush();
+        } else {
+            let penDown = false;
+            for (let i = first; i <= last; i++) {
+                if (!Number.isFinite(values[i])) {
+                    penDown = false;
+                    continue;
+                }
+                if (penDown) ctx.lineTo(toX(timestamps[i]), toY(values[i]));
+                else ctx.moveTo(toX(timestamps[i]), toY(values[i]));
+                penDown = true;
+            }
+        }
+        ctx.stroke();
+    });
+    ctx.setLineDash([]);
+
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = colors.marker;
+    ctx.fillStyle = colors.marker;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    markers.forEach(marker => {
+        if (marker.timestamp < view.min || marker.timestamp > view.max) return;
+        const x = Math.round(toX(marker.timestamp)) + 0.5;
+        ctx.beginPath();
+        ctx.moveTo(x, top);
+        ctx.lineTo(x, height - bottom);
+        ctx.stroke();
+        ctx.fillText(marker.label, x + 3, top + 3);
+    });
+
+    if (hoverIndex !== null) {
+        const x = Math.round(toX(timestamps[hoverIndex])) + 0.5;
+        ctx.strokeStyle = colors.cursor;
+        ctx.lineWidth = 1;
+        ctx.setLineDash([3, 3]);
+        ctx.beginPath();
+        ctx.moveTo(x, top);
+        ctx.lineTo(x, height - bottom);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        series.forEach(({ values, color }) => {
+            if (!Number.isFinite(values[hoverIndex])) return;
+            ctx.fillStyle = color;
+            ctx.beginPath();
+            ctx.arc(x, toY(values[hoverIndex]), 3, 0, 2 * Math.PI);
+            ctx.fill();
+        });
+    }
+    ctx.restore();
+};
+
+/** Resolves `var(--name)` colors, which canvas can't use, against the page styles. */
+const resolveCssColor = (element: Element, color: string): string => {
+    const match = /^var\((--[\w-]+)\)$/.exec(color.trim());
+    return match ? getComputedStyle(element).getPropertyValue(match[1]).trim() || '#888' : color;
+};
+
+/**
+ * Number field that keeps partial input such as "-" or "1." while still
+ * following changes made elsewhere, e.g. by loading a profile.
+ * An empty field stands for null.
+ */
+const NumberInput = ({
+    value,
+    onChange,
+    id,
+    label,
+    min,
+    step = 'any',
+    placeholder,
+}: {
+    value: number | null;
+    /** Called for every complete number typed, and null when the field is emptied. */
+    onChange: (value: number | null) => void;
+    id?: string;
+    label?: string;
+    min?: number;
+    step?: number | string;
+    placeholder?: string;
+}) => {
+    const toText = (number: number | null) => number === null ? '' : String(number);
+    const parse = (text: string) => text.trim() === '' ? null : parseFloat(text);
+    const [text, setText] = useState(() => toText(value));
+
+    useEffect(() => {
+        setText(current => parse(current) === value ? current : toText(value));
+    }, [value]);
+
+    return (
+        <input
+            id={id}
+            type="number"
+            min={min}
+            step={step}
+            placeholder={placeholder}
+            aria-label={label}
+            value={text}
+            onChange={(e) => {
+                setText(e.target.value);
+                const parsed = parse(e.target.value);
+                if (parsed === null || Number.isFinite(parsed)) onChange(parsed);
+            }}
+        />
+    );
+};
+
+/**
+ * Time-series chart of the log. Any mix of totals and individual scales can
+ * be overlaid. Wheel zooms and dragging pans the time axis; either stops the
+ * view following new data until "Follow Live" is pressed. Pausing freezes the
+ * data shown while acquisition carries on.
+ */
+const DataChart = ({
+    title,
+    entries,
+    scales,
+    plate,
+    markers,
+    defaultSeries,
+}: {
+    title: string;
+    entries: LogEntry[];
+    scales: Scale[];
+    /** Gives the unit and precision of the totals. */
+    plate: PlateConfig;
+    markers: LogMarker[];
+    /** Series ids shown initially: 'totalX', 'totalY', 'scale-<id>' or 'scale-<id>-unfiltered'. */
+    defaultSeries: string[];
+}) => {
+    const [selected, setSelected] = useState<string[]>(defaultSeries);
+    const [isPickerOpen, setIsPickerOpen] = useState(false);
+    const [frozenEntries, setFrozenEntries] = useState<LogEntry[] | null>(null);
+    const [view, setView] = useState<ChartRange | null>(null);
+    const [yMode, setYMode] = useState<'auto' | 'fixed'>('auto');
+    const [fixedY, setFixedY] = useState({ min: '0', max: '100' });
+    const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+    const [width, setWidth] = useState(600);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const dragRef = useRef<{ x: number; view: ChartRange } | null>(null);
+
+    const shownEntries = frozenEntries ?? entries;
+    const timestamps = useMemo(() => shownEntries.map(entry => entry.timestamp), [shownEntries]);
+
+    const availableSeries = useMemo(() => [
+        { id: 'totalX', label: 'X Total', color: 'var(--primary-color)', unit: plate.forceUnit, precision: plate.forcePrecision, value: (entry: LogEntry) => entry.totalX },
+        { id: 'totalY', label: 'Y Total', color: 'var(--secondary-color)', unit: plate.forceUnit, precision: plate.forcePrecision, value: (entry: LogEntry) => entry.totalY },
+        ...scales.map((scale, index) => ({
+            id: `scale-${scale.id}`,
+            label: scale.name,
+            color: CHART_PALETTE[index % CHART_PALETTE.length],
+            unit: scale.unit,
+            precision: scale.precision,
+            value: (entry: LogEntry) => entry.processedValues[index],
+        })),
+        ...scales.map((scale, index) => ({
+            id: `scale-${scale.id}-unfiltered`,
+            label: `${scale.name} (unfiltered)`,
+            color: CHART_PALETTE[index % CHART_PALETTE.length],
+            unit: scale.unit,
+            precision: scale.precision,
+            dashed: true,
+            value: (entry: LogEntry) => getUnfilteredValue(entry, index),
+        })),
+    ], [scales, plate.forceUnit, plate.forcePrecision]);
+    const activeSeries = useMemo(() => availableSeries
+        .filter(series => selected.includes(series.id))
+        .map(series => ({ ...series, values: shownEntries.map(series.value) })),
+        [availableSeries, selected, shownEntries]);
+    // The axis is only labelled when every shown series shares a unit.
+    const axisUnits = new Set(activeSeries.map(series => series.unit));
+    const axisUnit = axisUnits.size === 1 ? [...axisUnits][0] : null;
+
+    const dataRange: ChartRange | null = timestamps.length >= 2
+        ? { min: timestamps[0], max: timestamps[timestamps.length - 1] }
+        : null;
+    const visibleRange = view ?? dataRange;
+
+    const yRange = useMemo((): ChartRange | null => {
+        if (yMode === 'fixed') {
+            const min = parseFloat(fixedY.min);
+            const max = parseFloat(fixedY.max);
+            return Number.isFinite(min) && Number.isFinite(max) && max > min ? { min, max } : null;
+        }
+        if (!visibleRange) return null;
+        const first = findTimeIndex(timestamps, visibleRange.min);
+        // Up to and including a sample right on the edge, such as the newest one while following live.
+        const end = findTimeIndex(timestamps, visibleRange.max);
+        const last = timestamps[end] === visibleRange.max ? end : end - 1;
+        let min = Infinity;
+        let max = -Infinity;
+        activeSeries.forEach(({ values }) => {
+            for (let i = first; i <= last && i < values.length; i++) {
+                if (!Number.isFinite(values[i])) continue;
+                min = Math.min(min, values[i]);
+                max = Math.max(max, values[i]);
+            }
+        });
+        if (min > max) return { min: -1, max: 1 };
+        const margin = (max - min) * 0.05 || Math.abs(max) * 0.05 || 1;
+        return { min: min - margin, max: max + margin };
+    }, [yMode, fixedY, visibleRange?.min, visibleRange?.max, activeSeries, timestamps]);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container || typeof ResizeObserver === 'undefined') return;
+        const observer = new ResizeObserver(([entry]) => setWidth(Math.max(200, Math.floor(entry.contentRect.width))));
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = width * ratio;
+        canvas.height = CHART_HEIGHT * ratio;
+        ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+        if (!visibleRange || !yRange) {
+            ctx.clearRect(0, 0, width, CHART_HEIGHT);
+            return;
+        }
+        drawChart(
+            ctx,
+            width,
+            CHART_HEIGHT,
+            timestamps,
+            activeSeries.map(series => ({ values: series.values, color: resolveCssColor(canvas, series.color), dashed: series.dashed })),
+            visibleRange,
+            yRange,
+            hoverIndex !== null && hoverIndex < timestamps.length ? hoverIndex : null,
+            markers,
+            {
+                text: resolveCssColor(canvas, 'var(--text-secondary-color)'),
+                grid: resolveCssColor(canvas, 'var(--border-color)'),
+                cursor: resolveCssColor(canvas, 'var(--text-color)'),
+                marker: resolveCssColor(canvas, 'var(--marker-color)'),
+            },
+        );
+    }, [width, timestamps, activeSeries, visibleRange?.min, visibleRange?.max, yRange, hoverIndex, markers]);
+
+    const timeAtPixel = (clientX: number, range: ChartRange) => {
+        const rect = canvasRef.current!.getBoundingClientRect();
+        const fraction = (clientX - rect.left - CHART_MARGIN.left) / (rect.width - CHART_MARGIN.left - CHART_MARGIN.right);
+        return range.min + fraction * (range.max - range.min);
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+        if (!visibleRange) return;
+        e.preventDefault();
+        const anchor = timeAtPixel(e.clientX, visibleRange);
+        const factor = e.deltaY < 0 ? 1 / CHART_ZOOM_STEP : CHART_ZOOM_STEP;
+        const span = Math.max(CHART_MIN_SPAN_MS, (visibleRange.max - visibleRange.min) * factor);
+        const fraction = (anchor - visibleRange.min) / (visibleRange.max - visibleRange.min);
+        setView({ min: anchor - fraction * span, max: anchor + (1 - fraction) * span });
+    };
+
+    const handleWheelRef = useRef(handleWheel);
+    handleWheelRef.current = handleWheel;
+
+    // React's wheel listener is passive and can't stop the page scrolling, so zoom uses a native one.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const listener = (e: WheelEvent) => handleWheelRef.current(e);
+        canvas.addEventListener('wheel', listener, { passive: false });
+        return () => canvas.removeEventListener('wheel', listener);
+    }, []);
+
+    const handleMouseMove = (e: React.MouseEvent) => {
+        if (!visibleRange) return;
+        const drag = dragRef.current;
+        if (drag) {
+            const rect = canvasRef.current!.getBoundingClientRect();
+            const shift = (e.clientX - drag.x) / (rect.width - CHART_MARGIN.left - CHART_MARGIN.right) * (drag.view.max - drag.view.min);
+            setView({ min: drag.view.min - shift, max: drag.view.max - shift });
+            return;
+        }
+        const time = timeAtPixel(e.clientX, visibleRange);
+        const index = findTimeIndex(timestamps, time);
+        const nearest = index >= timestamps.length || (index > 0 && time - timestamps[index - 1] < timestamps[index] - time) ? index - 1 : index;
+        setHoverIndex(nearest >= 0 ? nearest : null);
+    };
+
+    const toggleSeries = (id: string) => {
+        setSelected(prev => prev.includes(id) ? prev.filter(existing => existing !== id) : [...prev, id]);
+    };
+
+    const hovered = hoverIndex !== null && hoverIndex < shownEntries.length ? hoverIndex : null;
+
+    return (
+        <div className="chart-container">
+            <div className="chart-toolbar">
+                <h3 className="chart-title">{title}</h3>
+                <div className="chart-series-picker">
+                    <button onClick={() => setIsPickerOpen(open => !open)}>Series ({selected.length})</button>
+                    {isPickerOpen && (
+                        <div className="chart-series-menu">
+                            {availableSeries.map(series => (
+                                <label key={series.id} className="checkbox-label">
+                                    <input type="checkbox" checked={selected.includes(series.id)} onChange={() => toggleSeries(series.id)} />
+                                    <span className={`chart-swatch${series.dashed ? ' dashed' : ''}`} style={{ background: series.color }} />
+                                    {series.label}
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                <button onClick={() => setFrozenEntries(frozen => frozen ? null : entries)} className={frozenEntries ? 'active' : ''}>
+                    {frozenEntries ? 'Resume' : 'Pause'}
+                </button>
+                <button onClick={() => setView(null)} disabled={!view}>Follow Live</button>
+                <select value={yMode} onChange={(e) => setYMode(e.target.value as 'auto' | 'fixed')} aria-label="Y range">
+                    <option value="auto">Auto Y</option>
+                    <option value="fixed">Fixed Y</option>
+                </select>
+                {yMode === 'fixed' && (
+                    <>
+                        <input type="number" value={fixedY.min} onChange={(e) => setFixedY({ ...fixedY, min: e.target.value })} aria-label="Y minimum" />
+                        <input type="number" value={fixedY.max} onChange={(e) => setFixedY({ ...fixedY, max: e.target.value })} aria-label="Y maximum" />
+                    </>
+                )}
+            </div>
+            <div className="chart-canvas-wrapper" ref={containerRef}>
+                {axisUnit && <span className="chart-unit">{axisUnit}</span>}
+                <canvas
+                    ref={canvasRef}
+                    style={{ width: '100%', height: CHART_HEIGHT }}
+                    onMouseDown={(e) => { if (visibleRange) dragRef.current = { x: e.clientX, view: visibleRange }; }}
+                    onMouseUp={() => { dragRef.current = null; }}
+                    onMouseMove={handleMouseMove}
+                    onMouseLeave={() => { dragRef.current = null; setHoverIndex(null); }}
+                />
+                {!dataRange && <div className="chart-waiting-text">Waiting for data...</div>}
+                {hovered !== null && (
+                    <div className="chart-readout">
+                        <div>{formatChartTime(timestamps[hovered], 3)}</div>
+                        {activeSeries.map(series => (
+                            <div key={series.id} style={{ color: series.color }}>
+                                {series.label}: {formatQuantity(series.values[hovered], series.unit, series.precision)}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Live top view of the fixture: cells at their positions sized and colored by
+ * load, the in-plane resultant drawn from the reference point, and a fading
+ * trail of recent center-of-pressure positions (or resultant tips when no
+ * cell is normal to the plate).
+ */
+const PlateView = ({
+    scales,
+    resultant,
+    plate,
+    log,
+}: {
+    scales: (Scale & { processedValue: number })[];
+    resultant: ForceResultant;
+    plate: PlateConfig;
+    log: LogEntry[];
+}) => {
+    const size = 300;
+    const padding = 30;
+    const hasNormalCells = scales.some(scale => scale.category === 'z');
+    const activeScales = scales.filter(scale => scale.category !== 'none');
+
+    // Fit the cells and the reference point, keeping the plate's aspect ratio.
+    const xs = [plate.referenceX, ...activeScales.map(scale => scale.geometry.x)];
+    const ys = [plate.referenceY, ...activeScales.map(scale => scale.geometry.y)];
+    const minX = Math.min(...xs), maxX = Math.max(...xs);
+    const minY = Math.min(...ys), maxY = Math.max(...ys);
+    const span = Math.max(maxX - minX, maxY - minY) || 1;
+    const centerX = (minX + maxX) / 2;
+    const centerY = (minY + maxY) / 2;
+    const unitsToSvg = (size - 2 * padding) / span;
+    const toSvgX = (x: number) => size / 2 + (x - centerX) * unitsToSvg;
+    const toSvgY = (y: number) => size / 2 - (y - centerY) * unitsToSvg;
+
+    const trail = log.slice(-PLATE_TRAIL_LENGTH).map(entry => hasNormalCells
+        ? resolveForces(entry.processedValues, scales, plate).centerOfPressure
+        : { x: entry.totalX, y: entry.totalY });
+
+    // In-plane forces are drawn as arrows from the reference point, scaled so
+    // the largest recent resultant spans 40% of the view.
+    const maxForce = Math.max(resultant.magnitude, ...(hasNormalCells ? [] : trail.map(p => p ? Math.hypot(p.x, p.y) : 0))) || 1;
+    const forceToSvg = (size * 0.4) / maxForce;
+    const originX = toSvgX(plate.referenceX);
+    const originY = toSvgY(plate.referenceY);
+    const toTrailPoint = (p: { x: number; y: number }) => hasNormalCells
+        ? { cx: toSvgX(p.x), cy: toSvgY(p.y) }
+        : { cx: originX + p.x * forceToSvg, cy: originY - p.y * forceToSvg };
+
+    const maxLoad = Math.max(...activeScales.map(scale => Math.abs(scale.processedValue * scale.geometry.weight)), 0) || 1;
+    const isUnplaced = activeScales.length > 1 && activeScales.every(scale => scale.geometry.x === activeScales[0].geometry.x && scale.geometry.y === activeScales[0].geometry.y);
+
+    return (
+        <div className="plate-view">
+            <h2>Plate View</h2>
+            {activeScales.length === 0 ? (
+                <p className="empty-text">Give the scales a category to show them on the plate.</p>
+            ) : (
+                <svg viewBox={`0 0 ${size} ${size}`}>
+                    <rect className="plate-outline" x={padding / 2} y={padding / 2} width={size - padding} height={size - padding} />
+                    <line className="axis" x1={originX} y1={padding / 2} x2={originX} y2={size - padding / 2} />
+                    <line className="axis" x1={padding / 2} y1={originY} x2={size - padding / 2} y2={originY} />
+
+                    {trail.map((p, i) => p && (
+                        <circle key={i} className="plate-trail" {...toTrailPoint(p)} r={2.5} opacity={(i + 1) / trail.length} />
+                    ))}
+
+                    {activeScales.map(scale => {
+                        const load = scale.processedValue * scale.geometry.weight;
+                        const fraction = Math.abs(load) / maxLoad;
+                        const state = fraction < IDLE_CELL_FRACTION ? 'idle' : load < 0 ? 'negative' : 'positive';
+                        const cx = toSvgX(scale.geometry.x);
+                        const cy = toSvgY(scale.geometry.y);
+                        const angle = getForceAngle(scale);
+                        const radius = 4 + 14 * fraction;
+                        return (
+                            <g key={scale.id} className={`plate-cell ${state}`}>
+                                <title>{`${scale.name}: ${formatQuantity(scale.processedValue, scale.unit, scale.precision)}`}</title>
+                                <circle cx={cx} cy={cy} r={radius} />
+                                {angle !== null && state !== 'idle' && (
+                                    <line
+                                        className="plate-cell-direction"
+                                        x1={cx}
+                                        y1={cy}
+                                        x2={cx + Math.cos(angle * Math.PI / 180) * Math.sign(load) * 20}
+                                        y2={cy - Math.sin(angle * Math.PI / 180) * Math.sign(load) * 20}
+                                    />
+                                )}
+                                <text x={cx} y={cy - radius - 4} className="plate-cell-label">{scale.name}</text>
+                            </g>
+                        );
+                    })}
+
+                    {resultant.magnitude > 0 && (
+                        <line
+                            className="plate-resultant"
+                            x1={originX}
+                            y1={originY}
+                            x2={originX + resultant.fx * forceToSvg}
+                            y2={originY - resultant.fy * forceToSvg}
+                            markerEnd="url(#plate-arrow)"
+                        />
+                    )}
+                    {resultant.centerOfPressure && (
+                        <circle className="plate-cop" cx={toSvgX(resultant.centerOfPressure.x)} cy={toSvgY(resultant.centerOfPressure.y)} r={5} />
+                    )}
+                    <defs>
+                        <marker id="plate-arrow" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                            <path d="M 0 0 L 10 5 L 0 10 z" />
+                        </marker>
+                    </defs>
+                </svg>
+            )}
+            {isUnplaced && <p className="empty-text">All cells share one position; set their X/Y in Plate Geometry.</p>}
+            <div className="plate-legend">
+                <span className="plate-legend-item positive">Positive load</span>
+                <span className="plate-legend-item negative">Negative (reversed?)</span>
+                <span className="plate-legend-item idle">No load (dead?)</span>
+                <span>Trail: {hasNormalCells ? 'center of pressure' : 'resultant tip'}</span>
+            </div>
+        </div>
+    );
+};
+
+const CalibrationPlot = ({ points, calibration }: { points: { x: number, y: number }[], calibration: Calibration | null }) => {
+    const width = 300;
+    const height = 150;
+    const padding = 10;
+
+    const xs = [0, ...points.map(p => p.x)];
+    const ys = [0, ...points.map(p => p.y)];
+    const minX = Math.min(...xs), maxX = Math.max(...xs);
+    const minY = Math.min(...ys), maxY = Math.max(...ys);
+    const xRange = maxX - minX || 1;
+    const yRange = maxY - minY || 1;
+
+    const toSvgX = (x: number) => padding + ((x - minX) / xRange) * (width - 2 * padding);
+    const toSvgY = (y: number) => height - padding - ((y - minY) / yRange) * (height - 2 * padding);
+
+    const curve = calibration
+        ? Array.from({ length: 51 }, (_, i) => {
+            const x = minX + (i / 50) * xRange;
+            return `${toSvgX(x)},${toSvgY(evaluateCalibration(calibration, x))}`;
+        }).join(' ')
+        : '';
+
+    return (
+        <svg className="calibration-plot" viewBox={`0 0 ${width} ${height}`}>
+            <line className="axis" x1={padding} y1={toSvgY(0)} x2={width - padding} y2={toSvgY(0)} />
+            <line className="axis" x1={toSvgX(0)} y1={padding} x2={toSvgX(0)} y2={height - padding} />
+            {curve && <polyline className="fit-line" points={curve} />}
+            {points.map((p, i) => (
+                <circle key={i} className="fit-point" cx={toSvgX(p.x)} cy={toSvgY(p.y)} r={3} />
+            ))}
+        </svg>
+    );
+};
+
+const CalibrationModal = ({
+    scale,
+    samples,
+    onClose,
+    onApply,
+}: {
+    scale: Scale;
+    /** Raw readings of this scale that arrived with the latest UI update, oldest first. */
+    samples: number[];
+    onClose: () => void;
+    onApply: (scaleId: number, record: CalibrationRecord) => void;
+}) => {
+    const [points, setPoints] = useState<CalibrationPoint[]>([]);
+    const [operator, setOperator] = useState<string>(() => localStorage.getItem(OPERATOR_STORAGE_KEY) ?? '');
+    const [note, setNote] = useState<string>('');
+    const [knownWeight, setKnownWeight] = useState<string>('100');
+    const [model, setModel] = useState<CalibrationModel>(scale.calibration.model);
+    // Known weights are a load, so an electrical unit falls back to kg.
+    const [unit, setUnit] = useState<Unit>(UNITS[scale.unit].newtons !== null ? scale.unit : 'kg');
+    const [captureSettings, setCaptureSettings] = useState<CaptureSettings>(DEFAULT_CAPTURE_SETTINGS);
+    const [capture, setCapture] = useState<CaptureState>({ phase: 'idle' });
+    const [recentRaw, setRecentRaw] = useState<number[]>([]);
+
+    const recentSlope = calculateTrendlineSlope(recentRaw);
+    const recentStdDev = calculateStandardDeviation(recentRaw);
+    const isStable = recentRaw.length >= captureSettings.windowSize
+        && Math.abs(recentSlope) <= captureSettings.maxSlope
+        && recentStdDev <= captureSettings.maxStdDev;
+
+    // Readings arrive in batches at the UI refresh rate; each one is checked in turn.
+    useEffect(() => {
+        if (samples.length === 0) return;
+        let recent = recentRaw;
+        let next = capture;
+        const captured: CalibrationPoint[] = [];
+
+        samples.forEach(rawValue => {
+            recent = [...recent, rawValue].slice(-captureSettings.windowSize);
+            if (next.phase === 'idle') return;
+
+            const stable = recent.length >= captureSettings.windowSize
+                && Math.abs(calculateTrendlineSlope(recent)) <= captureSettings.maxSlope
+                && calculateStandardDeviation(recent) <= captureSettings.maxStdDev;
+
+            if (!stable) {
+                if (next.phase === 'averaging') {
+                    next = { phase: 'waiting', knownWeight: next.knownWeight };
+                }
+                return;
+            }
+
+            if (next.phase === 'waiting') {
+                next = { phase: 'averaging', knownWeight: next.knownWeight, samples: [rawValue], startedAt: performance.now() };
+                return;
+            }
+
+            const collected = [...next.samples, rawValue];
+            const done = captureSettings.mode === 'samples'
+                ? collected.length >= captureSettings.amount
+                : collected.length >= 2 && performance.now() - next.startedAt >= captureSettings.amount * 1000;
+
+            if (done) {
+                captured.push({
+                    knownWeight: next.knownWeight,
+                    rawValue: calculateMean(collected),
+                    stdDev: calculateStandardDeviation(collected),
+                    sampleCount: collected.length,
+                });
+                next = { phase: 'idle' };
+            } else {
+                next = { ...next, samples: collected };
+            }
+        });
+
+        setRecentRaw(recent);
+        setCapture(next);
+        if (captured.length > 0) setPoints(prev => [...prev, ...captured]);
+    }, [samples]);
+    
+    const taredPoints = useMemo(() =>
+        points.map(p => ({ x: p.rawValue - scale.tareValue, y: p.knownWeight }))
+    , [points, scale.tareValue]);
+
+    const fit = useMemo(() => fitCalibration(taredPoints, model), [taredPoints, model]);
+    const fittedCalibration = fit ? { model, coefficients: fit.coefficients } : null;
+    const minimumPoints = getMinimumPoints(model);
+
+    const startCapture = () => {
+        const weight = parseFloat(knownWeight);
+        if (isNaN(weight)) {
+            alert('Please enter a valid number for weight.');
+            return;
+        }
+        setCapture({ phase: 'waiting', knownWeight: weight });
+    };
+
+    const handleCaptureSettingChange = (key: Exclude<keyof CaptureSettings, 'mode'>, value: number | null) => {
+        if (value !== null && value > 0) {
+            setCaptureSettings({ ...captureSettings, [key]: key === 'windowSize' ? Math.max(2, Math.round(value)) : value });
+        }
+    };
+
+    const captureProgress = capture.phase !== 'averaging' ? 0
+        : captureSettings.mode === 'samples'
+            ? capture.samples.length / captureSettings.amount
+            : (performance.now() - capture.startedAt) / (captureSettings.amount * 1000);
+
+    const removePoint = (index: number) => {
+        setPoints(points.filter((_, i) => i !== index));
+    };
+    
+    const handleApply = () => {
+        if (fit && fittedCalibration) {
+            try {
+                localStorage.setItem(OPERATOR_STORAGE_KEY, operator);
+            } catch (error) {
+                console.error("Failed to save operator name to localStorage", error);
+            }
+            onApply(scale.id, {
+                id: crypto.randomUUID(),
+                appliedAt: new Date().toISOString(),
+                calibration: fittedCalibration,
+                points,
+                referenceWeights: points.map(p => p.knownWeight),
+                tareValue: scale.tareValue,
+                rSquared: fit.rSquared,
+                operator: operator.trim(),
+                note: note.trim(),
+                unit,
+            });
+        }
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h2>Calibrate {scale.name}</h2>
+                    <button onClick={onClose} className="modal-close-btn">&times;</button>
+                </div>
+
+                <div className="calibration-form">
+                    <label htmlFor="calibration-model">Model:</label>
+                    <select id="calibration-model" value={model} onChange={(e) => setModel(e.target.value as CalibrationModel)}>
+                        {Object.entries(CALIBRATION_MODELS).map(([key, { label }]) => (
+                            <option key={key} value={key}>{label}</option>
+                        ))}
+                    </select>
+                    <label htmlFor="calibration-unit">Unit:</label>
+                    <select id="calibration-unit" value={unit} onChange={(e) => setUnit(e.target.value as Unit)}>
+                        {Object.entries(UNITS).filter(([, { newtons }]) => newtons !== null).map(([key, { label }]) => (
+                            <option key={key} value={key}>{label}</option>
+                        ))}
+                    </select>
+                </div>
+                
+                <div className="capture-settings">
+                    <label>
+                        Window
+                        <NumberInput min={2} step={1} value={captureSettings.windowSize} onChange={(value) => handleCaptureSettingChange('windowSize', value)} />
+                    </label>
+                    <label>
+                        Max |Slope|
+                        <NumberInput value={captureSettings.maxSlope} onChange={(value) => handleCaptureSettingChange('maxSlope', value)} />
+                    </label>
+                    <label>
+                        Max Std Dev
+                        <NumberInput value={captureSettings.maxStdDev} onChange={(value) => handleCaptureSettingChange('maxStdDev', value)} />
+                    </label>
+                    <label>
+                        Average
+                        <span className="capture-amount">
+                            <NumberInput value={captureSettings.amount} onChange={(value) => handleCaptureSettingChange('amount', value)} />
+                            <select value={captureSettings.mode} onChange={(e) => setCaptureSettings({ ...captureSettings, mode: e.target.value as CaptureSettings['mode'] })}>
+                                <option value="samples">samples</option>
+                                <option value="seconds">seconds</option>
+                            </select>
+                        </span>
+                    </label>
+                </div>
+
+                <div className={`capture-status ${isStable ? 'stable' : 'unstable'}`}>
+                    {isStable ? 'Stable' : 'Unstable'} — Raw: {formatNumber(scale.rawValue)}, Slope: {formatNumber(recentSlope)}, Std Dev: {formatNumber(recentStdDev)}
+                </div>
+
+                <div className="calibration-form">
+                    <input 
+                        type="number"
+                        value={knownWeight}
+                        onChange={(e) => setKnownWeight(e.target.value)}
+                        placeholder="Enter known weight (e.g., 100)"
+                        disabled={capture.phase !== 'idle'}
+                    />
+                    <span>{unit}</span>
+                    {capture.phase === 'idle' ? (
+                        <button onClick={startCapture}>Capture Data Point</button>
+                    ) : (
+                        <>
+                            <span className="capture-progress">
+                                {capture.phase === 'waiting' ? 'Waiting for stable reading...' : `Averaging ${Math.min(100, Math.round(captureProgress * 100))}%`}
+                            </span>
+                            <button onClick={() => setCapture({ phase: 'idle' })}>Cancel Capture</button>
+                        </>
+                    )}
+                </div>
+
+                {points.length > 0 && (
+                     <table className="data-points-table">
+                        <thead>
+                            <tr>
+                                <th>Known Weight ({unit})</th>
+                                <th>Raw Value</th>
+                                <th>Tared Value</th>
+                                <th>Std Dev (n)</th>
+                                <th>Residual</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {points.map((p, i) => (
+                                <tr key={i}>
+                                    <td>{p.knownWeight}</td>
+                                    <td>{formatNumber(p.rawValue)}</td>
+                                    <td>{formatNumber(p.rawValue - scale.tareValue)}</td>
+                                    <td>{formatNumber(p.stdDev)} ({p.sampleCount})</td>
+                                    <td>{fit ? formatNumber(fit.residuals[i]) : '-'}</td>
+                                    <td>
+                                        <button className="modal-close-btn" onClick={() => removePoint(i)} title="Delete point">&times;</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                {points.length > 0 && <CalibrationPlot points={taredPoints} calibration={fittedCalibration} />}
+
+                {fit ? (
+                    <div className="calibration-results">
+                        <p>Fit: <span>y = {formatCalibration({ model, coefficients: fit.coefficients })}</span></p>
+                        <p>Coefficient of Determination (R²): <span>{formatNumber(fit.rSquared)}</span></p>
+                        <p>Max |Residual|: <span>{formatNumber(Math.max(...fit.residuals.map(Math.abs)))}</span></p>
+                    </div>
+                ) : points.length >= minimumPoints && (
+                    <div className="calibration-results">
+                        <p>The points do not determine this model. Add points at different weights.</p>
+                    </div>
+                )}
+
+                {fit && (
+                    <div className="calibration-form">
+                        <input type="text" value={operator} onChange={(e) => setOperator(e.target.value)} placeholder="Operator name" />
+                        <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note (optional)" />
+                    </div>
+                )}
+                
+                <div className="modal-actions">
+                    <button onClick={onClose}>Cancel</button>
+                    <button onClick={handleApply} disabled={!fit}>
+                        {points.length < minimumPoints ? `Need ${minimumPoints - points.length} more point(s)` : 'Apply Calibration'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const CalibrationHistoryModal = ({
+    scale,
+    onClose,
+    onRollBack,
+}: {
+    scale: Scale;
+    onClose: () => void;
+    onRollBack: (scaleId: number, record: CalibrationRecord) => void;
+}) => {
+    const history = [...scale.calibrationHistory].reverse();
+    const activeRecordId = scale.calibrationHistory[scale.calibrationHistory.length - 1]?.id;
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h2>Calibration History: {scale.name}</h2>
+                    <button onClick={onClose} className="modal-close-btn">&times;</button>
+                </div>
+
+                <div className="calibration-results">
+                    <p>Active: <span>y = {formatCalibration(scale.calibration)} {scale.unit}</span></p>
+                </div>
+
+                {history.length === 0 ? (
+                    <p>No calibrations have been applied to this scale yet.</p>
+                ) : (
+                    <table className="data-points-table history-table">
+                        <thead>
+                            <tr>
+                                <th>Date</th>
+                                <th>Model</th>
+                                <th>Unit</th>
+                                <th>R²</th>
+                                <th>Points</th>
+                                <th>Operator</th>
+                                <th>Note</th>
+                                <th>Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {history.map(record => (
+                                <tr key={record.id} className={record.id === activeRecordId ? 'active' : ''}>
+                                    <td>{new Date(record.appliedAt).toLocaleString()}</td>
+                                    <td>{record.calibration.model}</td>
+                                    <td>{record.unit ?? '-'}</td>
+                                    <td>{record.rSquared.toFixed(5)}</td>
+                                    <td>{record.points.length}</td>
+                                    <td>{record.operator || '-'}</td>
+                                    <td>{record.note || '-'}</td>
+                                    <td>
+                                        <div className="row-actions">
+                                            <button onClick={() => onRollBack(scale.id, record)} disabled={record.id === activeRecordId}>Roll Back</button>
+                                            <button onClick={() => openCalibrationCertificate(scale, record)}>Certificate</button>
+                                            <button onClick={() => exportCalibrationRecordJson(scale, record)}>JSON</button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                <div className="modal-actions">
+                    <button onClick={onClose}>Close</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const SerialSettingsModal = ({
+    settings,
+    isConnected,
+    onSave,
+    onClose,
+}: {
+    settings: SerialSettings;
+    isConnected: boolean;
+    onSave: (settings: SerialSettings) => void;
+    onClose: () => void;
+}) => {
+    const [draft, setDraft] = useState<SerialSettings>(settings);
+
+    const update = <K extends keyof SerialSettings>(key: K, value: SerialSettings[K]) => {
+        setDraft({ ...draft, [key]: value });
+    };
+
+    const handleSave = () => {
+        onSave(draft);
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h2>Serial Port Settings</h2>
+                    <button onClick={onClose} className="modal-close-btn">&times;</button>
+                </div>
+
+                <div className="settings-grid">
+                    <label>
+                        Baud rate
+                        <input
+                            type="number"
+                            list="baud-rates"
+                            value={draft.baudRate}
+                            onChange={(e) => update('baudRate', parseInt(e.target.value) || DEFAULT_SERIAL_SETTINGS.baudRate)}
+                        />
+                        <datalist id="baud-rates">
+                            {BAUD_RATES.map(rate => <option key={rate} value={rate} />)}
+                        </datalist>
+                    </label>
+                    <label>
+                        Data bits
+                        <select value={draft.dataBits} onChange={(e) => update('dataBits', parseInt(e.target.value) as SerialSettings['dataBits'])}>
+                            <option value={7}>7</option>
+                            <option value={8}>8</option>
+                        </select>
+                    </label>
+                    <label>
+                        Parity
+                        <select value={draft.parity} onChange={(e) => update('parity', e.target.value as SerialSettings['parity'])}>
+                            <option value="none">None</option>
+                            <option value="even">Even</option>
+                            <option value="odd">Odd</option>
+                        </select>
+                    </label>
+                    <label>
+                        Stop bits
+                        <select value={draft.stopBits} onChange={(e) => update('stopBits', parseInt(e.target.value) as SerialSettings['stopBits'])}>
+                            <option value={1}>1</option>
+                            <option value={2}>2</option>
+                        </select>
+                    </label>
+                    <label>
+                        Flow control
+                        <select value={draft.flowControl} onChange={(e) => update('flowControl', e.target.value as SerialSettings['flowControl'])}>
+                            <option value="none">None</option>
+                            <option value="hardware">Hardware (RTS/CTS)</option>
+                        </select>
+                    </label>
+                    <label>
+                        Buffer size (bytes)
+                        <input
+                            type="number"
+                            min={1}
+                            value={draft.bufferSize}
+                            onChange={(e) => update('bufferSize', parseInt(e.target.value) || DEFAULT_SERIAL_SETTINGS.bufferSize)}
+                        />
+                    </label>
+                </div>
+
+                <label className="checkbox-label">
+                    <input type="checkbox" checked={draft.autoReconnect} onChange={() => update('autoReconnect', !draft.autoReconnect)} />
+                    Reconnect automatically when the device is lost
+                </label>
+                <label className="checkbox-label">
+                    <input type="checkbox" checked={draft.reconnectOnLoad} onChange={() => update('reconnectOnLoad', !draft.reconnectOnLoad)} />
+                    Reconnect to the last used port when the page loads
+                </label>
+
+                {isConnected && <p className="empty-text">Port parameters take effect the next time the port is opened.</p>}
+
+                <div className="modal-actions">
+                    <button onClick={onClose}>Cancel</button>
+                    <button onClick={handleSave}>Save</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ProfilePanel = ({
+    activeProfileName,
+    profileNames,
+    error,
+    onSwitch,
+    onSaveAs,
+    onRename,
+    onDelete,
+    onExport,
+    onImport,
+    onDismissError,
+    disabled,
+}: {
+    activeProfileName: string;
+    profileNames: string[];
+    error: string | null;
+    onSwitch: (name: string) => void;
+    onSaveAs: () => void;
+    onRename: () => void;
+    onDelete: () => void;
+    onExport: () => void;
+    onImport: (file: File) => void;
+    onDismissError: () => void;
+    /** Set while recording, since switching setups mid-session would mix configurations. */
+    disabled: boolean;
+}) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onImport(file);
+        e.target.value = '';
+    };
+
+    return (
+        <div className="profile-section">
+            <div className="profile-controls">
+                <label htmlFor="profile-select">Profile:</label>
+                <select id="profile-select" value={activeProfileName} onChange={(e) => onSwitch(e.target.value)} disabled={disabled}>
+                    {profileNames.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+                <button onClick={onSaveAs}>Save As New</button>
+                <button onClick={onRename}>Rename</button>
+                <button className="danger" onClick={onDelete} disabled={disabled || profileNames.length <= 1}>Delete</button>
+                <button onClick={onExport}>Export</button>
+                <button onClick={() => fileInputRef.current?.click()} disabled={disabled}>Import</button>
+                <input ref={fileInputRef} type="file" accept=".json,application/json" hidden onChange={handleFileChange} />
+            </div>
+            {error && (
+                <div className="profile-error" role="alert">
+                    <pre>{error}</pre>
+                    <button className="modal-close-btn" onClick={onDismissError}>&times;</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const ExportModal = ({
+    source,
+    options,
+    onOptionsChange,
+    onClose,
+}: {
+    source: ExportSource;
+    options: ExportOptions;
+    onOptionsChange: (options: ExportOptions) => void;
+    onClose: () => void;
+}) => {
+    const [progress, setProgress] = useState<number | null>(null);
+    const isExporting = progress !== null;
+    const isScaleSelected = (id: number) => !options.scaleIds || options.scaleIds.includes(id);
+    const gzipSupported = typeof CompressionStream !== 'undefined';
+    const metadataExtras = [
+        source.alarmEvents.length > 0 && `${source.alarmEvents.length} alarm events`,
+        source.markers.length > 0 && `${source.markers.length} markers`,
+    ].filter(Boolean);
+
+    const toggleColumn = (key: keyof ExportOptions['columns']) => {
+        onOptionsChange({ ...options, columns: { ...options.columns, [key]: !options.columns[key] } });
+    };
+
+    const toggleScale = (id: number) => {
+        const selected = source.scales.map(s => s.id).filter(scaleId => scaleId === id ? !isScaleSelected(id) : isScaleSelected(scaleId));
+        onOptionsChange({ ...options, scaleIds: selected.length === source.scales.length ? null : selected });
+    };
+
+    const handleExport = async () => {
+        setProgress(0);
+        try {
+            const blob = await buildExportBlob(source, options, setProgress);
+            downloadFile(getExportFilename(source, options), blob, blob.type);
+            onClose();
+        } catch (error) {
+            console.error('Failed to export the log', error);
+            alert(`Export failed: ${(error as Error).message}`);
+            setProgress(null);
+        }
+    };
+
+    return (
+        <div className="modal-overlay" onClick={isExporting ? undefined : onClose}>
+            <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h2>Export {source.name}</h2>
+                    <button onClick={onClose} className="modal-close-btn" disabled={isExporting}>&times;</button>
+                </div>
+
+                <p>{source.entries.length} samples</p>
+
+                <div className="export-options">
+                    <label>
+                        Format
+                        <select value={options.format} onChange={(e) => onOptionsChange({ ...options, format: e.target.value as ExportFormat })}>
+                            {Object.entries(EXPORT_FORMATS).map(([key, { label }]) => <option key={key} value={key}>{label}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        Decimal places
+                        <input
+                            type="number"
+                            min={0}
+                            max={12}
+                            value={options.precision}
+                            onChange={(e) => onOptionsChange({ ...options, precision: Math.min(12, Math.max(0, parseInt(e.target.value) || 0)) })}
+                        />
+                    </label>
+                    <label className="checkbox-label" title="Processed and total columns use the decimal places set for each channel; raw columns use the value above">
+                        <input type="checkbox" checked={options.channelPrecision} onChange={() => onOptionsChange({ ...options, channelPrecision: !options.channelPrecision })} />
+                        Per-channel decimal places
+                    </label>
+                    <label className="checkbox-label">
+                        <input type="checkbox" checked={options.includeMetadata} onChange={() => onOptionsChange({ ...options, includeMetadata: !options.includeMetadata })} />
+                        Metadata header{metadataExtras.length > 0 && ` (with ${metadataExtras.join(' and ')})`}
+                    </label>
+                    <label className="checkbox-label" title={gzipSupported ? '' : 'Compression is not supported by this browser'}>
+                        <input type="checkbox" checked={options.gzip && gzipSupported} disabled={!gzipSupported} onChange={() => onOptionsChange({ ...options, gzip: !options.gzip })} />
+                        Gzip compress
+                    </label>
+                </div>
+
+                <div className="export-column-group">
+                    <h3>Columns</h3>
+                    {([
+                        ['timestamp', 'Timestamp'],
+                        ['elapsed', 'Elapsed time'],
+                        ['totals', 'X/Y totals'],
+                        ['processed', 'Processed values'],
+                        ['unfiltered', 'Unfiltered values'],
+                        ['raw', 'Raw values'],
+                    ] as [keyof ExportOptions['columns'], string][]).map(([key, label]) => (
+                        <label key={key} className="checkbox-label">
+                            <input type="checkbox" checked={options.columns[key]} onChange={() => toggleColumn(key)} />
+                            {label}
+                        </label>
+                    ))}
+                </div>
+
+                {(options.columns.processed || options.columns.unfiltered || options.columns.raw) && (
+                    <div className="export-column-group">
+                        <h3>Scales</h3>
+                        {source.scales.map(scale => (
+                            <label key={scale.id} className="checkbox-label">
+                                <input type="checkbox" checked={isScaleSelected(scale.id)} onChange={() => toggleScale(scale.id)} />
+                                {scale.name}
+                            </label>
+                        ))}
+                    </div>
+                )}
+
+                {isExporting && <progress className="export-progress" value={progress} max={1} />}
+
+                <div className="modal-actions">
+                    <button onClick={onClose} disabled={isExporting}>Cancel</button>
+                    <button onClick={handleExport} disabled={isExporting || source.entries.length === 0}>
+                        {isExporting ? `Exporting ${Math.round(progress * 100)}%` : 'Download'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const DeviceConsole = ({
+    config,
+    entries,
+    devices,
+    connectedDevices,
+    onRunCommand,
+    onSendRaw,
+    onConfigChange,
+    onClear,
+}: {
+    config: DeviceCommandConfig;
+    entries: ConsoleEntry[];
+    devices: string[];
+    /** Per device slot, whether it can take commands. */
+    connectedDevices: boolean[];
+    onRunCommand: (command: DeviceCommand, argument: string, device: number) => void;
+    onSendRaw: (text: string, responsePattern: string, device: number) => void;
+    onConfigChange: (config: DeviceCommandConfig) => void;
+    onClear: () => void;
+}) => {
+    const [arguments_, setArguments] = useState<Record<string, string>>({});
+    const [rawCommand, setRawCommand] = useState('');
+    const [rawPattern, setRawPattern] = useState('');
+    const [isEditing, setIsEditing] = useState(false);
+    const [targetDevice, setTargetDevice] = useState(0);
+    const logRef = useRef<HTMLDivElement>(null);
+    const device = targetDevice < devices.length ? targetDevice : 0;
+    const isConnected = !!connectedDevices[device];
+
+    useEffect(() => {
+        if (logRef.current) logRef.current.scrollTop = logRef.current.scrollHeight;
+    }, [entries]);
+
+    const updateCommand = (index: number, patch: Partial<DeviceCommand>) => {
+        onConfigChange({ ...config, commands: config.commands.map((command, i) => i === index ? { ...command, ...patch } : command) });
+    };
+
+    const addCommand = () => {
+        onConfigChange({
+            ...config,
+            commands: [...config.commands, { id: crypto.randomUUID(), label: 'New Command', template: '', responsePattern: '', timeoutMs: DEFAULT_COMMAND_TIMEOUT_MS }],
+        });
+    };
+
+    const isValidPattern = (pattern: string) => {
+        try {
+            new RegExp(pattern);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    };
+
+    const handleSendRaw = () => {
+        if (!rawCommand.trim() || !isValidPattern(rawPattern)) return;
+        onSendRaw(rawCommand.trim(), rawPattern, device);
+        setRawCommand('');
+    };
+
+    return (
+        <div className="console-section">
+            <div className="section-header">
+                <h2>Device Commands</h2>
+                {devices.length > 1 && (
+                    <select value={device} onChange={(e) => setTargetDevice(Number(e.target.value))} aria-label="Target device">
+                        {devices.map((name, i) => <option key={i} value={i}>{name}</option>)}
+                    </select>
+                )}
+                <button onClick={() => setIsEditing(editing => !editing)}>{isEditing ? 'Done Editing' : 'Edit Commands'}</button>
+            </div>
+
+            {isEditing ? (
+                <>
+                    <div className="protocol-controls">
+                        <label htmlFor="line-terminator">Line terminator:</label>
+                        <select id="line-terminator" value={config.lineTerminator} onChange={(e) => onConfigChange({ ...config, lineTerminator: e.target.value })}>
+                            {LINE_TERMINATORS.map(option => <option key={option.label} value={option.value}>{option.label}</option>)}
+                        </select>
+                    </div>
+                    <table className="data-points-table command-table">
+                        <thead>
+                            <tr>
+                                <th>Label</th>
+                                <th>Command ({'{value}'} = argument)</th>
+                                <th>Reply pattern (regex)</th>
+                                <th>Timeout (ms)</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {config.commands.map((command, i) => (
+                                <tr key={command.id}>
+                                    <td><input type="text" value={command.label} onChange={(e) => updateCommand(i, { label: e.target.value })} /></td>
+                                    <td><input type="text" value={command.template} onChange={(e) => updateCommand(i, { template: e.target.value })} /></td>
+                                    <td>
+                                        <input
+                                            type="text"
+                                            className={isValidPattern(command.responsePattern) ? '' : 'invalid'}
+                                            value={command.responsePattern}
+                                            placeholder="No reply"
+                                            onChange={(e) => updateCommand(i, { responsePattern: e.target.value })}
+                                        />
+                                    </td>
+                                    <td>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            value={command.timeoutMs}
+                                            onChange={(e) => updateCommand(i, { timeoutMs: parseInt(e.target.value) || DEFAULT_COMMAND_TIMEOUT_MS })}
+                                        />
+                                    </td>
+                                    <td>
+                                        <button
+                                            className="modal-close-btn"
+                                            title="Remove command"
+                                            onClick={() => onConfigChange({ ...config, commands: config.commands.filter((_, j) => j !== i) })}
+                                        >
+                                            &times;
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="row-actions">
+                        <button onClick={addCommand}>Add Command</button>
+                        <button onClick={() => onConfigChange(DEFAULT_DEVICE_COMMANDS)}>Restore Defaults</button>
+                    </div>
+                </>
+            ) : (
+                <div className="command-buttons">
+                    {config.commands.map(command => {
+                        const needsArgument = command.template.includes('{value}');
+                        const canRun = isConnected && isValidPattern(command.responsePattern)
+                            && (!needsArgument || !!arguments_[command.id]?.trim());
+                        return (
+                            <div key={command.id} className="command-button">
+                                {needsArgument && (
+                                    <input
+                                        type="text"
+                                        placeholder="value"
+                                        value={arguments_[command.id] ?? ''}
+                                        onChange={(e) => setArguments({ ...arguments_, [command.id]: e.target.value })}
+                                    />
+                                )}
+                                <button onClick={() => onRunCommand(command, arguments_[command.id] ?? '', device)} disabled={!canRun}>
+                                    {command.label}
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <div className="protocol-controls">
+                <input
+                    type="text"
+                    value={rawCommand}
+                    onChange={(e) => setRawCommand(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSendRaw()}
+                    placeholder="Raw command"
+                />
+                <input
+                    type="text"
+                    className={isValidPattern(rawPattern) ? '' : 'invalid'}
+                    value={rawPattern}
+                    onChange={(e) => setRawPattern(e.target.value)}
+                    placeholder="Reply pattern (optional)"
+                />
+                <button onClick={handleSendRaw} disabled={!isConnected || !rawCommand.trim()}>Send</button>
+                <button onClick={onClear} disabled={entries.length === 0}>Clear</button>
+            </div>
+
+            <div className="log-display console-log" ref={logRef}>
+                {entries.length === 0 && <div className="empty-text">{isConnected ? 'No commands sent yet.' : 'Connect a device to send commands.'}</div>}
+                {entries.map(entry => (
+                    <div key={entry.id} className={`console-entry ${entry.kind}`}>
+                        {new Date(entry.time).toLocaleTimeString()} {entry.kind === 'sent' ? '>' : entry.kind === 'response' ? '<' : '!'} {entry.text}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const SimulatorPanel = ({
+    configText,
+    onApply,
+}: {
+    configText: string;
+    onApply: (text: string) => string | null;
+}) => {
+    const [draft, setDraft] = useState(configText);
+    const [error, setError] = useState<string | null>(null);
+    const [isOpen, setIsOpen] = useState(false);
+
+    const handlePresetChange = (name: string) => {
+        const text = JSON.stringify(SIMULATOR_PRESETS[name], null, 2);
+        setDraft(text);
+        setError(onApply(text));
+    };
+
+    return (
+        <div className="simulator-section">
+            <div className="section-header">
+                <h2>Simulator</h2>
+                <button onClick={() => setIsOpen(open => !open)}>{isOpen ? 'Hide Script' : 'Edit Script'}</button>
+            </div>
+            {isOpen && (
+                <>
+                    <div className="simulator-controls">
+                        <label htmlFor="simulator-preset">Preset:</label>
+                        <select id="simulator-preset" value="" onChange={(e) => handlePresetChange(e.target.value)}>
+                            <option value="" disabled>Load a preset...</option>
+                            {Object.keys(SIMULATOR_PRESETS).map(name => <option key={name} value={name}>{name}</option>)}
+                        </select>
+                        <button onClick={() => setError(onApply(draft))} disabled={draft === configText}>Apply Script</button>
+                    </div>
+                    <textarea
+                        className="simulator-script"
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        spellCheck={false}
+                        rows={16}
+                    />
+                    <p className="empty-text">
+                        Segment types: step (load), ramp (from, to), sine (offset, amplitude, period) and move (load, from [x, y], to [x, y]).
+                        Lines are sent in the current line protocol.
+                    </p>
+                    {error && <pre className="simulator-error" role="alert">{error}</pre>}
+                </>
+            )}
+        </div>
+    );
+};
+
+const ReplayPanel = ({
+    status,
+    canLoad,
+    onLoadFile,
+    onPlayPause,
+    onSeek,
+    onSpeedChange,
+    onLoopChange,
+    onApplyRecordedConfig,
+    onClose,
+}: {
+    status: ReplayStatus | null;
+    canLoad: boolean;
+    onLoadFile: (file: File, sampleRateHz: number) => void;
+    onPlayPause: () => void;
+    onSeek: (position: number) => void;
+    onSpeedChange: (speed: number) => void;
+    onLoopChange: (loop: boolean) => void;
+    onApplyRecordedConfig: () => void;
+    onClose: () => void;
+}) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [captureRate, setCaptureRate] = useState(DEFAULT_CAPTURE_RATE_HZ);
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onLoadFile(file, captureRate);
+        e.target.value = '';
+    };
+
+    return (
+        <div className="replay-section">
+            <h2>Replay</h2>
+            {!status ? (
+                <div className="replay-controls">
+                    <button onClick={() => fileInputRef.current?.click()} disabled={!canLoad}>Load Data File...</button>
+                    <label htmlFor="capture-rate">Raw capture rate (Hz):</label>
+                    <input
+                        id="capture-rate"
+                        type="number"
+                        min={0.1}
+                        step="any"
+                        value={captureRate}
+                        onChange={(e) => setCaptureRate(parseFloat(e.target.value) || DEFAULT_CAPTURE_RATE_HZ)}
+                    />
+                    <input ref={fileInputRef} type="file" accept=".csv,.tsv,.jsonl,.txt,.log,.gz" hidden onChange={handleFileChange} />
+                    <span className="empty-text">Exported logs (CSV, TSV, JSON Lines, .gz) or raw serial captures. Recorded sessions can be replayed from the list below.</span>
+                </div>
+            ) : (
+                <>
+                    <div className="replay-controls">
+                        <strong>{status.name}</strong>
+                        <span className="empty-text">{status.sampleCount} samples</span>
+                        <button onClick={onPlayPause}>{status.playing ? 'Pause' : 'Play'}</button>
+                        <label htmlFor="replay-speed">Speed:</label>
+                        <select id="replay-speed" value={status.speed} onChange={(e) => onSpeedChange(parseFloat(e.target.value))}>
+                            {REPLAY_SPEEDS.map(speed => <option key={speed} value={speed}>{speed}x</option>)}
+                        </select>
+                        <label className="checkbox-label">
+                            <input type="checkbox" checked={status.loop} onChange={() => onLoopChange(!status.loop)} />
+                            Loop
+                        </label>
+                        <button onClick={onApplyRecordedConfig} disabled={!status.hasRecordedConfig} title="Use the tare and calibration the data was recorded with">
+                            Apply Recorded Calibration
+                        </button>
+                        <button className="danger" onClick={onClose}>Close Replay</button>
+                    </div>
+                    <div className="replay-timeline">
+                        <span>{formatDuration(status.position)}</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={status.duration}
+                            step="any"
+                            value={status.position}
+                            onChange={(e) => onSeek(parseFloat(e.target.value))}
+                        />
+                        <span>{formatDuration(status.duration)}</span>
+                    </div>
+                    {status.warnings.map(warning => <p key={warning} className="replay-warning">{warning}</p>)}
+                </>
+            )}
+        </div>
+    );
+};
+
+const SessionBrowser = ({
+    sessions,
+    activeSessionId,
+    viewedSessionId,
+    canOpen,
+    onOpen,
+    onRename,
+    onDelete,
+    onExport,
+    onReplay,
+}: {
+    sessions: RecordingSession[];
+    activeSessionId: string | null;
+    viewedSessionId: string | null;
+    /** Opening replaces the log, so it is only allowed while no live data is flowing. */
+    canOpen: boolean;
+    onOpen: (session: RecordingSession) => void;
+    onRename: (session: RecordingSession) => void;
+    onDelete: (session: RecordingSession) => void;
+    onExport: (session: RecordingSession) => void;
+    onReplay: (session: RecordingSession) => void;
+}) => (
+    <div className="sessions-section">
+        <h2>Recorded Sessions</h2>
+        {sessions.length === 0 ? (
+            <p className="empty-text">No sessions recorded yet. Press Record while data is flowing.</p>
+        ) : (
+            <table className="data-points-table sessions-table">
+                <thead>
+                    <tr>
+                        <th>Name</th>
+                        <th>Started</th>
+                        <th>Duration</th>
+                        <th>Samples</th>
+                        <th>Status</th>
+                        <th>Actions</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {sessions.map(session => (
+                        <tr key={session.id} className={session.id === viewedSessionId ? 'active' : ''}>
+                            <td>{session.name}</td>
+                            <td>{new Date(session.startedAt).toLocaleString()}</td>
+                            <td>{session.endedAt ? formatDuration(session.endedAt - session.startedAt) : '-'}</td>
+                            <td>{session.sampleCount}</td>
+                            <td className={`session-status ${session.status}`}>{session.status}</td>
+                            <td>
+                                <div className="row-actions">
+                                    <button onClick={() => onOpen(session)} disabled={!canOpen || session.id === activeSessionId}>Open</button>
+                                    <button onClick={() => onReplay(session)} disabled={!canOpen || session.id === activeSessionId}>Replay</button>
+                                    <button onClick={() => onExport(session)} disabled={session.id === activeSessionId}>Export</button>
+                                    <button onClick={() => onRename(session)}>Rename</button>
+                                    <button className="danger" onClick={() => onDelete(session)} disabled={session.id === activeSessionId}>Delete</button>
+                                </div>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        )}
+    </div>
+);
+
+const StabilityBadge = ({ stats }: { stats: ChannelStatistics }) => (
+    <span className={`stability-badge ${stats.isStable === null ? 'unknown' : stats.isStable ? 'stable' : 'unstable'}`}>
+        {stats.isStable === null ? '—' : stats.isStable ? 'Stable' : 'Unstable'}
+    </span>
+);
+
+const STATISTICS_COLUMNS: { label: string; value: (stats: ChannelStatistics, precision: number) => string }[] = [
+    { label: 'N', value: stats => String(stats.count) },
+    { label: 'Mean', value: (stats, precision) => formatNumber(stats.mean, precision) },
+    { label: 'Std Dev', value: (stats, precision) => formatNumber(stats.stdDev, precision) },
+    { label: 'Min', value: (stats, precision) => formatNumber(stats.min, precision) },
+    { label: 'Max', value: (stats, precision) => formatNumber(stats.max, precision) },
+    { label: 'Peak-Peak', value: (stats, precision) => formatNumber(stats.peakToPeak, precision) },
+    { label: 'RMS Noise', value: (stats, precision) => formatNumber(stats.rmsNoise, precision) },
+    { label: 'Slope (/s)', value: (stats, precision) => formatNumber(stats.slopePerSecond, precision) },
+    { label: 'Drift', value: (stats, precision) => stats.drift === null ? '-' : formatNumber(stats.drift, precision) },
+];
+
+const StatisticsPanel = ({
+    statistics,
+    scales,
+    plate,
+    settings,
+    baseline,
+    isCapturingBaseline,
+    canCaptureBaseline,
+    onSettingsChange,
+    onCaptureBaseline,
+}: {
+    statistics: LogStatistics;
+    scales: Scale[];
+    plate: PlateConfig;
+    settings: StatisticsSettings;
+    baseline: DriftBaseline | null;
+    isCapturingBaseline: boolean;
+    canCaptureBaseline: boolean;
+    onSettingsChange: (settings: StatisticsSettings) => void;
+    /** Starts averaging a new drift baseline over the next window. */
+    onCaptureBaseline: () => void;
+}) => {
+    const rows = [
+        { name: 'X Total', unit: plate.forceUnit, precision: plate.forcePrecision, stats: statistics.totalX },
+        { name: 'Y Total', unit: plate.forceUnit, precision: plate.forcePrecision, stats: statistics.totalY },
+        ...scales.map((scale, i) => ({ name: scale.name, unit: scale.unit, precision: scale.precision, stats: statistics.scales[i] })),
+    ];
+
+    const setNumber = (key: keyof StatisticsSettings, value: number | null) => {
+        if (value !== null && value > 0) onSettingsChange({ ...settings, [key]: value });
+    };
+
+    const handleCopy = async () => {
+        const header = ['Channel', 'Unit', ...STATISTICS_COLUMNS.map(column => column.label), 'Stable'].join('\t');
+        const lines = rows.map(({ name, unit, precision, stats }) =>
+            [name, unit, ...STATISTICS_COLUMNS.map(column => column.value(stats, precision)), stats.isStable === null ? '' : stats.isStable ? 'yes' : 'no'].join('\t'));
+        try {
+            await navigator.clipboard.writeText([`# Window ${settings.windowSeconds} s, ${settings.source} values`, header, ...lines].join('\n'));
+        } catch (err) {
+            console.error('Failed to copy text: ', err);
+            alert('Failed to copy statistics to clipboard.');
+        }
+    };
+
+    return (
+        <div className="statistics-section">
+            <div className="section-header">
+                <h2>Statistics</h2>
+                <button onClick={handleCopy}>Copy Table</button>
+            </div>
+            <div className="protocol-controls">
+                <label htmlFor="stats-window">Window (s):</label>
+                <NumberInput id="stats-window" min={0.1} step={0.5} value={settings.windowSeconds} onChange={(value) => setNumber('windowSeconds', value)} />
+                <label htmlFor="stats-max-std">Stable if Std Dev &le;</label>
+                <NumberInput id="stats-max-std" min={0} value={settings.maxStdDev} onChange={(value) => setNumber('maxStdDev', value)} />
+                <label htmlFor="stats-max-slope">and |Slope| &le;</label>
+                <NumberInput id="stats-max-slope" min={0} value={settings.maxSlopePerSecond} onChange={(value) => setNumber('maxSlopePerSecond', value)} />
+                <span>/s</span>
+                <label htmlFor="stats-source">Values:</label>
+                <select id="stats-source" value={settings.source} onChange={(e) => onSettingsChange({ ...settings, source: e.target.value as StatisticsSettings['source'] })}>
+                    <option value="filtered">Filtered</option>
+                    <option value="unfiltered">Unfiltered</option>
+                </select>
+            </div>
+            <div className="protocol-controls">
+                <span>
+                    Drift baseline: {isCapturingBaseline ? 'averaging the next window...'
+                        : baseline ? `window from ${formatChartTime(baseline.capturedAt, 0)}` : 'none'}
+                </span>
+                <button onClick={onCaptureBaseline} disabled={!canCaptureBaseline || isCapturingBaseline}>Set Baseline</button>
+            </div>
+            <table className="data-points-table statistics-table">
+                <thead>
+                    <tr>
+                        <th>Channel</th>
+                        {STATISTICS_COLUMNS.map(column => <th key={column.label}>{column.label}</th>)}
+                        <th>Status</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(({ name, unit, precision, stats }, i) => (
+                        <tr key={i}>
+                            <td>{name} ({unit})</td>
+                            {STATISTICS_COLUMNS.map(column => <td key={column.label}>{column.value(stats, precision)}</td>)}
+                            <td><StabilityBadge stats={stats} /></td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const SequenceResults = ({ steps }: { steps: SequenceStepResult[] }) => (
+    <table className="data-points-table sequence-results">
+        <thead>
+            <tr>
+                <th>#</th>
+                <th>Step</th>
+                <th>Result</th>
+                <th>Detail</th>
+            </tr>
+        </thead>
+        <tbody>
+            {steps.map((result, i) => (
+                <tr key={i} className={`sequence-step ${result.status}`}>
+                    <td>{i + 1}</td>
+                    <td>{describeSequenceStep(result.step)}</td>
+                    <td>{result.status === 'passed' ? 'Pass' : result.status === 'failed' ? 'Fail' : 'Skipped'}</td>
+                    <td>{result.detail}</td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+const SequencePanel = ({
+    sequences,
+    runs,
+    active,
+    canRun,
+    onSave,
+    onDelete,
+    onRun,
+    onConfirmPrompt,
+    onAbort,
+    onExportRun,
+    onDeleteRun,
+}: {
+    sequences: TestSequence[];
+    runs: SequenceRun[];
+    active: ActiveSequence | null;
+    canRun: boolean;
+    onSave: (sequence: TestSequence) => void;
+    onDelete: (name: string) => void;
+    onRun: (sequence: TestSequence, operator: string) => Promise<SequenceRun>;
+    onConfirmPrompt: () => void;
+    onAbort: () => void;
+    onExportRun: (run: SequenceRun, format: 'json' | 'csv') => void;
+    onDeleteRun: (id: string) => void;
+}) => {
+    const [selectedName, setSelectedName] = useState<string>(sequences[0]?.name ?? '');
+    const [operator, setOperator] = useState<string>(() => localStorage.getItem(OPERATOR_STORAGE_KEY) ?? '');
+    const [draft, setDraft] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [viewedRunId, setViewedRunId] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const selected = sequences.find(sequence => sequence.name === selectedName) ?? sequences[0];
+    const viewedRun = runs.find(run => run.id === viewedRunId);
+
+    const saveText = (text: string) => {
+        try {
+            const sequence = parseTestSequence(JSON.parse(text));
+            onSave(sequence);
+            setSelectedName(sequence.name);
+            setDraft(null);
+            setError(null);
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) saveText(await file.text());
+    };
+
+    const handleRun = async () => {
+        try {
+            localStorage.setItem(OPERATOR_STORAGE_KEY, operator);
+        } catch (err) {
+            console.error("Failed to save operator name to localStorage", err);
+        }
+        const run = await onRun(selected, operator.trim());
+        setViewedRunId(run.id);
+    };
+
+    return (
+        <div className="sequence-section">
+            <h2>Test Sequences</h2>
+            {active ? (
+                <div className="sequence-progress">
+                    <p>
+                        Running <strong>{active.run.sequenceName}</strong>, step {active.stepIndex + 1}: {describeSequenceStep(active.step)}
+                    </p>
+                    {active.step.type === 'prompt' && (
+                        <div className="sequence-prompt" role="alert">
+                            <span>{active.step.message}</span>
+                            <button onClick={onConfirmPrompt}>Continue</button>
+                        </div>
+                    )}
+                    {active.run.steps.length > 0 && <SequenceResults steps={active.run.steps} />}
+                    <div className="row-actions">
+                        <button className="danger" onClick={onAbort}>Abort</button>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    <div className="protocol-controls">
+                        <label htmlFor="sequence-select">Sequence:</label>
+                        <select id="sequence-select" value={selected?.name ?? ''} onChange={(e) => { setSelectedName(e.target.value); setDraft(null); }}>
+                            {sequences.map(sequence => <option key={sequence.name} value={sequence.name}>{sequence.name}</option>)}
+                        </select>
+                        <input type="text" value={operator} onChange={(e) => setOperator(e.target.value)} placeholder="Operator name" />
+                        <button onClick={handleRun} disabled={!canRun || !selected}>Run</button>
+                        <button onClick={() => setDraft(draft === null ? JSON.stringify(selected ?? EXAMPLE_SEQUENCE, null, 2) : null)}>
+                            {draft === null ? 'Edit JSON' : 'Close Editor'}
+                        </button>
+                        <button onClick={() => downloadFile(`${toFileSafeName(selected.name)}.sequence.json`, JSON.stringify(selected, null, 2), 'application/json')} disabled={!selected}>Export</button>
+                        <button onClick={() => fileInputRef.current?.click()}>Import</button>
+                        <input ref={fileInputRef} type="file" accept=".json,application/json" hidden onChange={handleFileChange} />
+                        <button className="danger" onClick={() => onDelete(selected.name)} disabled={!selected}>Delete</button>
+                    </div>
+                    {draft !== null && (
+                        <>
+                            <textarea className="simulator-script" value={draft} onChange={(e) => setDraft(e.target.value)} spellCheck={false} rows={16} />
+                            <div className="row-actions">
+                                <button onClick={() => saveText(draft)}>Save Sequence</button>
+                            </div>
+                            <p className="empty-text">
+                                Step types: prompt (message), waitStable (channel, timeout), tare (optional scaleIds), record (duration)
+                                and assert (channel, statistic, min, max). Channels are totalX, totalY or scale-&lt;id&gt;; times are in seconds.
+                                Saving under an existing name replaces that sequence.
+                            </p>
+                        </>
+                    )}
+                    {error && <pre className="simulator-error" role="alert">{error}</pre>}
+                    {!canRun && <p className="empty-text">Start a data source to run a sequence.</p>}
+                </>
+            )}
+
+            <h3>Reports ({runs.length})</h3>
+            {runs.length === 0 ? (
+                <p className="empty-text">No runs yet.</p>
+            ) : (
+                <table className="data-points-table">
+                    <thead>
+                        <tr>
+                            <th>Date</th>
+                            <th>Sequence</th>
+                            <th>Operator</th>
+                            <th>Result</th>
+                            <th>Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {runs.map(run => (
+                            <tr key={run.id} className={run.id === viewedRunId ? 'active' : ''}>
+                                <td>{new Date(run.startedAt).toLocaleString()}</td>
+                                <td>{run.sequenceName}</td>
+                                <td>{run.operator || '-'}</td>
+                                <td className={`sequence-result ${run.result}`}>{run.result.toUpperCase()}</td>
+                                <td>
+                                    <div className="row-actions">
+                                        <button onClick={() => setViewedRunId(run.id === viewedRunId ? null : run.id)}>{run.id === viewedRunId ? 'Hide' : 'View'}</button>
+                                        <button onClick={() => onExportRun(run, 'json')}>JSON</button>
+                                        <button onClick={() => onExportRun(run, 'csv')}>CSV</button>
+                                        <button className="danger" onClick={() => onDeleteRun(run.id)}>Delete</button>
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            {viewedRun && <SequenceResults steps={viewedRun.steps} />}
+        </div>
+    );
+};
+
+/** Drift is measured from the live baseline, so it says nothing about a segment. */
+const SEGMENT_COLUMNS = STATISTICS_COLUMNS.filter(column => column.label !== 'Drift');
+
+/**
+ * Lists the markers on the log and the statistics of one channel for each
+ * stretch between them.
+ */
+const MarkerPanel = ({
+    markers,
+    log,
+    scales,
+    plate,
+    settings,
+    canAdd,
+    editable,
+    onAdd,
+    onRename,
+    onDelete,
+    onClear,
+}: {
+    markers: LogMarker[];
+    log: LogEntry[];
+    scales: Scale[];
+    plate: PlateConfig;
+    settings: StatisticsSettings;
+    canAdd: boolean;
+    /** False while a recorded session is shown; its markers are read-only. */
+    editable: boolean;
+    onAdd: () => void;
+    onRename: (marker: LogMarker) => void;
+    onDelete: (id: string) => void;
+    onClear: () => void;
+}) => {
+    const [channel, setChannel] = useState('totalX');
+    const resolved = resolveSequenceChannel(channel, scales, plate) ?? resolveSequenceChannel('totalX', scales, plate)!;
+    const sortedMarkers = useMemo(() => [...markers].sort((a, b) => a.timestamp - b.timestamp), [markers]);
+    const segments = useMemo(() => splitLogAtMarkers(log, markers), [log, markers]);
+    const rows = useMemo(() => segments.map(segment => ({
+        segment,
+        stats: calculateChannelStatistics(
+            segment.entries.map(entry => (entry.timestamp - segment.start) / 1000),
+            segment.entries.map(entry => resolved.value(entry) ?? 0),
+            null,
+            settings,
+        ),
+    })), [segments, channel, scales, plate, settings]);
+    const logStart = log[0]?.timestamp ?? 0;
+
+    const handleCopy = async () => {
+        const header = ['Segment', 'Start_s', 'Duration_s', ...SEGMENT_COLUMNS.map(column => column.label)].join('\t');
+        const lines = rows.map(({ segment, stats }) => [
+            segment.label,
+            formatNumber((segment.start - logStart) / 1000),
+            formatNumber((segment.end - segment.start) / 1000),
+            ...SEGMENT_COLUMNS.map(column => column.value(stats, resolved.precision)),
+        ].join('\t'));
+        try {
+            await navigator.clipboard.writeText([`# ${resolved.name} (${resolved.unit})`, header, ...lines].join('\n'));
+        } catch (err) {
+            console.error('Failed to copy text: ', err);
+            alert('Failed to copy segment statistics to clipboard.');
+        }
+    };
+
+    return (
+        <div className="marker-section">
+            <div className="section-header">
+                <h2>Markers</h2>
+                <div className="row-actions">
+                    <button onClick={onAdd} disabled={!canAdd} title={`Shortcut: ${MARKER_SHORTCUT_KEY.toUpperCase()}`}>Add Marker</button>
+                    <button className="danger" onClick={onClear} disabled={!editable || markers.length === 0}>Clear</button>
+                </div>
+            </div>
+            {canAdd && <p className="empty-text">Press {MARKER_SHORTCUT_KEY.toUpperCase()} outside a text field to mark the latest sample, then rename it below.</p>}
+
+            {sortedMarkers.length === 0 ? (
+                <p className="empty-text">No markers yet.</p>
+            ) : (
+                <table className="data-points-table">
+                    <thead>
+                        <tr>
+                            <th>Time</th>
+                            <th>Label</th>
+                            {editable && <th>Actions</th>}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {sortedMarkers.map(marker => (
+                            <tr key={marker.id}>
+                                <td>{formatChartTime(marker.timestamp, 3)}</td>
+                                <td>{marker.label}</td>
+                                {editable && (
+                                    <td>
+                                        <div className="row-actions">
+                                            <button onClick={() => onRename(marker)}>Rename</button>
+                                            <button className="danger" onClick={() => onDelete(marker.id)}>Delete</button>
+                                        </div>
+                                    </td>
+                                )}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <div className="section-header">
+                <h3>Segments</h3>
+                <button onClick={handleCopy} disabled={rows.length === 0}>Copy Table</button>
+            </div>
+            <div className="protocol-controls">
+                <label htmlFor="segment-channel">Channel:</label>
+                <select id="segment-channel" value={channel} onChange={(e) => setChannel(e.target.value)}>
+                    <option value="totalX">X Total</option>
+                    <option value="totalY">Y Total</option>
+                    {scales.map(scale => <option key={scale.id} value={`scale-${scale.id}`}>{scale.name}</option>)}
+                </select>
+                <span>{resolved.unit}</span>
+            </div>
+            {rows.length === 0 ? (
+                <p className="empty-text">The log is empty.</p>
+            ) : (
+                <table className="data-points-table statistics-table">
+                    <thead>
+                        <tr>
+                            <th>Segment</th>
+                            <th>Start (s)</th>
+                            <th>Duration (s)</th>
+                            {SEGMENT_COLUMNS.map(column => <th key={column.label}>{column.label}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(({ segment, stats }, i) => (
+                            <tr key={i}>
+                                <td>{segment.label}</td>
+                                <td>{formatNumber((segment.start - logStart) / 1000)}</td>
+                                <td>{formatNumber((segment.end - segment.start) / 1000)}</td>
+                                {SEGMENT_COLUMNS.map(column => <td key={column.label}>{column.value(stats, resolved.precision)}</td>)}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+const TarePanel = ({
+    scales,
+    windowSeconds,
+    taringIds,
+    canTare,
+    onWindowChange,
+    onTare,
+    onSetTare,
+    onUndo,
+    onZeroTrackingChange,
+}: {
+    scales: Scale[];
+    windowSeconds: number;
+    /** Scales with an averaged tare in progress. */
+    taringIds: number[];
+    canTare: boolean;
+    onWindowChange: (seconds: number) => void;
+    onTare: (ids: number[]) => void;
+    onSetTare: (id: number, value: number) => void;
+    onUndo: (id: number) => void;
+    onZeroTrackingChange: (id: number, patch: Partial<ZeroTracking>) => void;
+}) => {
+    const [historyScaleId, setHistoryScaleId] = useState<number | null>(null);
+    const historyScale = scales.find(scale => scale.id === historyScaleId);
+    /** Manual tare text being typed, by scale id; other fields show the current tare. */
+    const [tareDrafts, setTareDrafts] = useState<Record<number, string>>({});
+
+    // Manual entries apply when the field is left, so typing doesn't log a change per keystroke.
+    const commitTare = (scale: Scale) => {
+        const draft = tareDrafts[scale.id];
+        if (draft === undefined) return;
+        const value = parseFloat(draft);
+        if (Number.isFinite(value) && value !== scale.tareValue) onSetTare(scale.id, value);
+        setTareDrafts(({ [scale.id]: _, ...rest }) => rest);
+    };
+
+    return (
+        <div className="tare-section">
+            <h2>Tare</h2>
+            <div className="protocol-controls">
+                <label htmlFor="tare-window">Average over (s):</label>
+                <NumberInput
+                    id="tare-window"
+                    min={0}
+                    step={0.5}
+                    value={windowSeconds}
+                    onChange={(seconds) => { if (seconds !== null && seconds >= 0) onWindowChange(seconds); }}
+                />
+                <span className="empty-text">0 tares on the latest reading</span>
+            </div>
+            <table className="data-points-table tare-table">
+                <thead>
+                    <tr>
+                        <th>Scale</th>
+                        <th>Tare (raw)</th>
+                        <th>Zero Tracking</th>
+                        <th>Band</th>
+                        <th>Last Change</th>
+                        <th>Actions</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {scales.map(scale => {
+                        const last = scale.tareHistory[scale.tareHistory.length - 1];
+                        return (
+                            <tr key={scale.id}>
+                                <td>{scale.name}</td>
+                                <td>
+                                    <input
+                                        type="number"
+                                        step="any"
+                                        value={tareDrafts[scale.id] ?? scale.tareValue}
+                                        aria-label={`${scale.name} tare`}
+                                        onChange={(e) => setTareDrafts(prev => ({ ...prev, [scale.id]: e.target.value }))}
+                                        onBlur={() => commitTare(scale)}
+                                        onKeyDown={(e) => { if (e.key === 'Enter') commitTare(scale); }}
+                                    />
+                                </td>
+                                <td>
+                                    <input
+                                        type="checkbox"
+                                        checked={scale.zeroTracking.enabled}
+                                        onChange={() => onZeroTrackingChange(scale.id, { enabled: !scale.zeroTracking.enabled })}
+                                        aria-label={`${scale.name} zero tracking`}
+                                    />
+                                </td>
+                                <td>
+                                    <NumberInput
+                                        min={0}
+                                        value={scale.zeroTracking.band}
+                                        label={`${scale.name} zero tracking band`}
+                                        onChange={(band) => { if (band !== null && band >= 0) onZeroTrackingChange(scale.id, { band }); }}
+                                    /> {scale.unit}
+                                </td>
+                                <td>{last ? `${TARE_SOURCE_LABELS[last.source]}, ${new Date(last.timestamp).toLocaleTimeString()}` : '—'}</td>
+                                <td>
+                                    <div className="row-actions">
+                                        <button onClick={() => onTare([scale.id])} disabled={!canTare || taringIds.length > 0}>
+                                            {taringIds.includes(scale.id) ? 'Taring...' : 'Tare'}
+                                        </button>
+                                        <button onClick={() => onUndo(scale.id)} disabled={!findUndoableTare(scale.tareHistory)}>Undo</button>
+                                        <button onClick={() => setHistoryScaleId(historyScaleId === scale.id ? null : scale.id)}>
+                                            History ({scale.tareHistory.length})
+                                        </button>
+                                    </div>
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+
+            {historyScale && (
+                <>
+                    <h3>Tare History: {historyScale.name}</h3>
+                    {historyScale.tareHistory.length === 0 ? (
+                        <p className="empty-text">No tare changes yet.</p>
+                    ) : (
+                        <table className="data-points-table tare-history-table">
+                            <thead>
+                                <tr>
+                                    <th>Time</th>
+                                    <th>Change</th>
+                                    <th>From</th>
+                                    <th>To</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {[...historyScale.tareHistory].reverse().map((change, i) => (
+                                    <tr key={i}>
+                                        <td>{new Date(change.timestamp).toLocaleString()}</td>
+                                        <td>{TARE_SOURCE_LABELS[change.source]}</td>
+                                        <td>{formatNumber(change.previous)}</td>
+                                        <td>{formatNumber(change.value)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+const GeometryPanel = ({
+    scales,
+    plate,
+    onScaleChange,
+    onPlateChange,
+}: {
+    scales: Scale[];
+    plate: PlateConfig;
+    onScaleChange: (id: number, patch: Partial<ScaleGeometry>) => void;
+    onPlateChange: (plate: PlateConfig) => void;
+}) => {
+    const numberInput = (value: number, onChange: (value: number) => void, label?: string) => (
+        <NumberInput value={value} label={label} onChange={(parsed) => { if (parsed !== null) onChange(parsed); }} />
+    );
+    const unconvertible = scales.filter(scale => scale.category !== 'none' && getUnitFactor(scale.unit, plate.forceUnit) === null);
+
+    return (
+        <div className="geometry-section">
+            <h2>Plate Geometry</h2>
+            <div className="protocol-controls">
+                <label>Moment reference point:</label>
+                {numberInput(plate.referenceX, referenceX => onPlateChange({ ...plate, referenceX }), 'Reference X')}
+                {numberInput(plate.referenceY, referenceY => onPlateChange({ ...plate, referenceY }), 'Reference Y')}
+                <label htmlFor="position-unit">Position unit:</label>
+                <input
+                    id="position-unit"
+                    type="text"
+                    value={plate.positionUnit}
+                    onChange={(e) => onPlateChange({ ...plate, positionUnit: e.target.value })}
+                />
+                <label htmlFor="force-unit">Force unit:</label>
+                <select id="force-unit" value={plate.forceUnit} onChange={(e) => onPlateChange({ ...plate, forceUnit: e.target.value as Unit })}>
+                    {Object.entries(UNITS).map(([key, { label }]) => <option key={key} value={key}>{label}</option>)}
+                </select>
+                <label htmlFor="force-precision">Decimals:</label>
+                <input
+                    id="force-precision"
+                    type="number"
+                    min={0}
+                    max={MAX_PRECISION}
+                    value={plate.forcePrecision}
+                    onChange={(e) => onPlateChange({ ...plate, forcePrecision: Math.min(MAX_PRECISION, Math.max(0, parseInt(e.target.value) || 0)) })}
+                />
+            </div>
+            {unconvertible.length > 0 && (
+                <p className="unit-warning">
+                    {unconvertible.map(scale => `${scale.name} (${scale.unit})`).join(', ')} can't be converted to {plate.forceUnit} and {unconvertible.length === 1 ? 'is' : 'are'} added to the totals unchanged.
+                </p>
+            )}
+            <table className="data-points-table geometry-table">
+                <thead>
+                    <tr>
+                        <th>Scale</th>
+                        <th>Category</th>
+                        <th>Angle (&deg;)</th>
+                        <th>Weight</th>
+                        <th>X ({plate.positionUnit})</th>
+                        <th>Y ({plate.positionUnit})</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {scales.map(scale => (
+                        <tr key={scale.id}>
+                            <td>{scale.name}</td>
+                            <td>{scale.category}</td>
+                            <td>
+                                {scale.category === 'vector'
+                                    ? numberInput(scale.geometry.angle, angle => onScaleChange(scale.id, { angle }))
+                                    : CATEGORY_ANGLES[scale.category] ?? '—'}
+                            </td>
+                            <td>{numberInput(scale.geometry.weight, weight => onScaleChange(scale.id, { weight }))}</td>
+                            <td>{numberInput(scale.geometry.x, x => onScaleChange(scale.id, { x }))}</td>
+                            <td>{numberInput(scale.geometry.y, y => onScaleChange(scale.id, { y }))}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const AlarmPanel = ({
+    scales,
+    plate,
+    settings,
+    activeAlarms,
+    events,
+    onScaleLimitsChange,
+    onSettingsChange,
+    onExportEvents,
+    onClearEvents,
+}: {
+    scales: Scale[];
+    plate: PlateConfig;
+    settings: AlarmSettings;
+    activeAlarms: ActiveAlarms;
+    events: AlarmEvent[];
+    onScaleLimitsChange: (id: number, patch: Partial<ScaleLimits>) => void;
+    onSettingsChange: (settings: AlarmSettings) => void;
+    onExportEvents: () => void;
+    onClearEvents: () => void;
+}) => {
+    // Empty inputs turn a limit off.
+    const limitInput = (value: number | null, onChange: (value: number | null) => void, label: string) => (
+        <NumberInput value={value} onChange={onChange} label={label} placeholder="off" />
+    );
+
+    const rows = [
+        { channel: 'totalX', name: 'X Total', unit: plate.forceUnit, precision: plate.forcePrecision, limits: settings.totalX as ScaleLimits, onChange: (patch: Partial<ScaleLimits>) => onSettingsChange({ ...settings, totalX: { ...settings.totalX, ...patch } }) },
+        { channel: 'totalY', name: 'Y Total', unit: plate.forceUnit, precision: plate.forcePrecision, limits: settings.totalY as ScaleLimits, onChange: (patch: Partial<ScaleLimits>) => onSettingsChange({ ...settings, totalY: { ...settings.totalY, ...patch } }) },
+        ...scales.map(scale => ({ channel: `scale-${scale.id}`, name: scale.name, unit: scale.unit, precision: scale.precision, limits: scale.limits, onChange: (patch: Partial<ScaleLimits>) => onScaleLimitsChange(scale.id, patch) })),
+    ];
+    const activeCount = Object.values(activeAlarms).reduce((sum, kinds) => sum + kinds.length, 0);
+
+    return (
+        <div className="alarm-section">
+            <div className="section-header">
+                <h2>Alarms {activeCount > 0 && <span className="alarm-count">{activeCount} active</span>}</h2>
+            </div>
+            <div className="protocol-controls">
+                <label className="checkbox-label">
+                    <input type="checkbox" checked={settings.audible} onChange={() => onSettingsChange({ ...settings, audible: !settings.audible })} />
+                    Audible alert
+                </label>
+                <label htmlFor="overload-percent">Overload at</label>
+                <NumberInput
+                    id="overload-percent"
+                    min={1}
+                    value={settings.overloadPercent}
+                    onChange={(overloadPercent) => {
+                        if (overloadPercent !== null && overloadPercent > 0) onSettingsChange({ ...settings, overloadPercent });
+                    }}
+                />
+                <span>% of capacity</span>
+            </div>
+            <table className="data-points-table alarm-table">
+                <thead>
+                    <tr>
+                        <th>Channel</th>
+                        <th>Lower</th>
+                        <th>Upper</th>
+                        <th>Max Rate (/s)</th>
+                        <th>Capacity</th>
+                        <th>Status</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(({ channel, name, unit, limits, onChange }) => (
+                        <tr key={channel} className={activeAlarms[channel] ? 'alarm-active' : ''}>
+                            <td>{name} ({unit})</td>
+                            <td>{limitInput(limits.lower, lower => onChange({ lower }), `${name} lower limit`)}</td>
+                            <td>{limitInput(limits.upper, upper => onChange({ upper }), `${name} upper limit`)}</td>
+                            <td>{limitInput(limits.maxRate, maxRate => onChange({ maxRate }), `${name} maximum rate`)}</td>
+                            <td>{channel.startsWith('scale-') ? limitInput(limits.capacity, capacity => onChange({ capacity }), `${name} capacity`) : '—'}</td>
+                            <td>{activeAlarms[channel]?.map(kind => ALARM_KIND_LABELS[kind]).join(', ') ?? 'OK'}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <div className="section-header">
+                <h3>Event Log ({events.length})</h3>
+                <div className="row-actions">
+                    <button onClick={onExportEvents} disabled={events.length === 0}>Export CSV</button>
+                    <button onClick={onClearEvents} disabled={events.length === 0}>Clear</button>
+                </div>
+            </div>
+            {events.length === 0 ? (
+                <p className="empty-text">No alarms yet.</p>
+            ) : (
+                <div className="alarm-event-log">
+                    {[...events].reverse().map((event, i) => {
+                        const row = rows.find(({ channel }) => channel === event.channel);
+                        const format = (value: number) => row ? formatQuantity(value, row.unit, row.precision) : formatNumber(value);
+                        return (
+                            <div key={i} className={`alarm-event ${event.state}`}>
+                                <span>{new Date(event.timestamp).toLocaleTimeString()}</span>
+                                <span>{event.channelName}</span>
+                                <span>{ALARM_KIND_LABELS[event.kind]}</span>
+                                <span>{event.state === 'raised' ? 'Raised' : 'Cleared'}</span>
+                                <span>{format(event.value)} (limit {format(event.limit)})</span>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const FilterPanel = ({
+    scales,
+    sampleRateHz,
+    onChange,
+}: {
+    scales: Scale[];
+    sampleRateHz: number | null;
+    onChange: (ids: number[], filters: FilterStage[]) => void;
+}) => {
+    const updateStage = (scale: Scale, index: number, stage: FilterStage) =>
+        onChange([scale.id], scale.filters.map((existing, i) => i === index ? stage : existing));
+
+    const moveStage = (scale: Scale, index: number, offset: number) => {
+        const filters = [...scale.filters];
+        [filters[index], filters[index + offset]] = [filters[index + offset], filters[index]];
+        onChange([scale.id], filters);
+    };
+
+    const handleCopyToAll = (scale: Scale) => {
+        if (!window.confirm(`Replace the filters of every scale with those of "${scale.name}"?`)) return;
+        onChange(scales.map(s => s.id), scale.filters);
+    };
+
+    const renderParameter = (scale: Scale, index: number, stage: FilterStage) => {
+        switch (stage.type) {
+            case 'movingAverage':
+            case 'median':
+                return (
+                    <label>
+                        Window
+                        <input
+                            type="number"
+                            min={1}
+                            max={MAX_FILTER_WINDOW}
+                            value={stage.windowSize}
+                            onChange={(e) => {
+                                const windowSize = parseInt(e.target.value);
+                                if (windowSize >= 1 && windowSize <= MAX_FILTER_WINDOW) updateStage(scale, index, { ...stage, windowSize });
+                            }}
+                        />
+                    </label>
+                );
+            case 'lowPass':
+                return (
+                    <label>
+                        &tau; (s)
+                        <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={stage.timeConstant}
+                            onChange={(e) => {
+                                const timeConstant = parseFloat(e.target.value);
+                                if (timeConstant >= 0) updateStage(scale, index, { ...stage, timeConstant });
+                            }}
+                        />
+                    </label>
+                );
+            case 'notch': {
+                const isActive = sampleRateHz !== null && stage.frequency < sampleRateHz / 2;
+                return (
+                    <>
+                        <select value={stage.frequency} onChange={(e) => updateStage(scale, index, { ...stage, frequency: Number(e.target.value) })}>
+                            {MAINS_FREQUENCIES.map(frequency => <option key={frequency} value={frequency}>{frequency} Hz</option>)}
+                        </select>
+                        {!isActive && (
+                            <span className="filter-warning" title="The notch passes readings through until the sample rate is known and above twice its frequency.">
+                                Inactive
+                            </span>
+                        )}
+                    </>
+                );
+            }
+        }
+    };
+
+    return (
+        <div className="filter-section">
+            <div className="section-header">
+                <h2>Filters</h2>
+                <span className="filter-sample-rate">
+                    Sample rate: {sampleRateHz !== null ? `${sampleRateHz.toFixed(1)} Hz` : 'unknown'}
+                </span>
+            </div>
+            <table className="data-points-table filter-table">
+                <thead>
+                    <tr>
+                        <th>Scale</th>
+                        <th>Filter Chain (applied in order)</th>
+                        <th>Actions</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {scales.map(scale => (
+                        <tr key={scale.id}>
+                            <td>{scale.name}</td>
+                            <td>
+                                {scale.filters.length === 0 && <span className="filter-none">Unfiltered</span>}
+                                {scale.filters.map((stage, index) => (
+                                    <div key={index} className="filter-stage">
+                                        <select
+                                            value={stage.type}
+                                            onChange={(e) => updateStage(scale, index, FILTER_TYPES[e.target.value as FilterStage['type']].defaults)}
+                                        >
+                                            {Object.entries(FILTER_TYPES).map(([type, { label }]) => <option key={type} value={type}>{label}</option>)}
+                                        </select>
+                                        {renderParameter(scale, index, stage)}
+                                        <button onClick={() => moveStage(scale, index, -1)} disabled={index === 0} aria-label="Move up">&uarr;</button>
+                                        <button onClick={() => moveStage(scale, index, 1)} disabled={index === scale.filters.length - 1} aria-label="Move down">&darr;</button>
+                                        <button className="danger" onClick={() => onChange([scale.id], scale.filters.filter((_, i) => i !== index))} aria-label="Remove filter">&times;</button>
+                                    </div>
+                                ))}
+                            </td>
+                            <td>
+                                <div className="row-actions">
+                                    <select
+                                        value=""
+                                        onChange={(e) => onChange([scale.id], [...scale.filters, FILTER_TYPES[e.target.value as FilterStage['type']].defaults])}
+                                        aria-label="Add filter"
+                                    >
+                                        <option value="" disabled>Add filter...</option>
+                                        {Object.entries(FILTER_TYPES).map(([type, { label }]) => <option key={type} value={type}>{label}</option>)}
+                                    </select>
+                                    <button onClick={() => handleCopyToAll(scale)} disabled={scales.length <= 1}>Copy to All</button>
+                                </div>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const ProtocolPanel = ({
+    config,
+    scales,
+    isSerialActive,
+    stats,
+    onChange,
+    onResetStats,
+}: {
+    config: ProtocolConfig;
+    scales: Scale[];
+    /** Device slots can't be added or removed while ports are open in them. */
+    isSerialActive: boolean;
+    stats: LineStats;
+    onChange: (config: ProtocolConfig) => void;
+    onResetStats: () => void;
+}) => {
+    const [testLine, setTestLine] = useState('');
+    const [testDevice, setTestDevice] = useState(0);
+    const testResult = useMemo(
+        () => testLine.trim() ? parseLine(testLine.trim(), config, Math.min(testDevice, config.devices.length - 1)) : null,
+        [testLine, testDevice, config]
+    );
+    const isMultiDevice = config.devices.length > 1;
+
+    const handleColumnChange = (index: number, key: string) => {
+        const columnMap = [...config.columnMap];
+        columnMap[index] = key;
+        onChange({ ...config, columnMap });
+    };
+
+    const handleDeviceChange = (index: number, device: number) => {
+        const deviceMap = [...config.deviceMap];
+        deviceMap[index] = device;
+        onChange({ ...config, deviceMap });
+    };
+
+    const handleRenameDevice = (device: number, name: string) => {
+        onChange({ ...config, devices: config.devices.map((existing, i) => i === device ? name : existing) });
+    };
+
+    const handleAddDevice = () => {
+        onChange({ ...config, devices: [...config.devices, `Device ${config.devices.length + 1}`] });
+    };
+
+    // Scales on the removed device fall back to the first one.
+    const handleRemoveDevice = (device: number) => {
+        onChange({
+            ...config,
+            devices: config.devices.filter((_, i) => i !== device),
+            deviceMap: config.deviceMap.map(mapped => mapped === device ? 0 : mapped > device ? mapped - 1 : mapped),
+        });
+    };
+
+    const fieldPlaceholder = config.format === 'keyValue' ? 'Key (e.g., S1)' : config.format === 'json' ? 'Path (e.g., s1 or 1)' : 'Column (1-based)';
+
+    return (
+        <div className="protocol-section">
+            <h2>Line Protocol</h2>
+            <div className="protocol-controls">
+                <label htmlFor="protocol-format">Format:</label>
+                <select
+                    id="protocol-format"
+                    value={config.format}
+                    onChange={(e) => onChange({ ...config, format: e.target.value as LineFormat })}
+                >
+                    <option value="delimited">Delimited</option>
+                    <option value="keyValue">Key/Value</option>
+                    <option value="json">JSON per line</option>
+                </select>
+                {config.format === 'delimited' && (
+                    <>
+                        <label htmlFor="protocol-delimiter">Delimiter:</label>
+                        <select
+                            id="protocol-delimiter"
+                            value={config.delimiter}
+                            onChange={(e) => onChange({ ...config, delimiter: e.target.value })}
+                        >
+                            {DELIMITER_OPTIONS.map(option => (
+                                <option key={option.label} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </>
+                )}
+                {config.format === 'keyValue' && (
+                    <>
+                        <label htmlFor="protocol-separator">Separator:</label>
+                        <select
+                            id="protocol-separator"
+                            value={config.keyValueSeparator}
+                            onChange={(e) => onChange({ ...config, keyValueSeparator: e.target.value })}
+                        >
+                            <option value="=">=</option>
+                            <option value=":">:</option>
+                        </select>
+                    </>
+                )}
+            </div>
+
+            <div className="protocol-devices">
+                <label>Devices:</label>
+                {config.devices.map((name, device) => (
+                    <div key={device} className="protocol-device">
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => handleRenameDevice(device, e.target.value)}
+                            aria-label={`Device ${device + 1} name`}
+                        />
+                        {isMultiDevice && (
+                            <button
+                                className="modal-close-btn"
+                                title="Remove device"
+                                onClick={() => handleRemoveDevice(device)}
+                                disabled={isSerialActive}
+                            >
+                                &times;
+                            </button>
+                        )}
+                    </div>
+                ))}
+                <button onClick={handleAddDevice} disabled={isSerialActive || config.devices.length >= MAX_DEVICE_COUNT}>Add Device</button>
+                {isMultiDevice && (
+                    <>
+                        <label htmlFor="protocol-alignment">Alignment:</label>
+                        <select
+                            id="protocol-alignment"
+                            value={config.alignment}
+                            onChange={(e) => onChange({ ...config, alignment: e.target.value as AlignmentPolicy })}
+                        >
+                            {ALIGNMENT_POLICIES.map(policy => <option key={policy.value} value={policy.value}>{policy.label}</option>)}
+                        </select>
+                    </>
+                )}
+            </div>
+
+            <table className="data-points-table protocol-map-table">
+                <thead>
+                    <tr>
+                        <th>Scale</th>
+                        {isMultiDevice && <th>Device</th>}
+                        <th>Source Field</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {scales.map((scale, index) => (
+                        <tr key={scale.id}>
+                            <td>{scale.name}</td>
+                            {isMultiDevice && (
+                                <td>
+                                    <select value={config.deviceMap[index] ?? 0} onChange={(e) => handleDeviceChange(index, Number(e.target.value))}>
+                                        {config.devices.map((name, device) => <option key={device} value={device}>{name}</option>)}
+                                    </select>
+                                </td>
+                            )}
+                            <td>
+                                <input
+                                    type="text"
+                                    value={config.columnMap[index] ?? ''}
+                                    placeholder={fieldPlaceholder}
+                                    onChange={(e) => handleColumnChange(index, e.target.value)}
+                                />
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <div className="protocol-controls">
+                <label htmlFor="protocol-test-line">Test Line:</label>
+                <input
+                    id="protocol-test-line"
+                    type="text"
+                    value={testLine}
+                    onChange={(e) => setTestLine(e.target.value)}
+                    placeholder="Paste a line from the device"
+                />
+                {isMultiDevice && (
+                    <select value={testDevice} onChange={(e) => setTestDevice(Number(e.target.value))} aria-label="Test line device">
+                        {config.devices.map((name, device) => <option key={device} value={device}>{name}</option>)}
+                    </select>
+                )}
+            </div>
+            {testResult && (
+                <div className={`protocol-test-result ${'values' in testResult ? 'ok' : 'error'}`}>
+                    {'values' in testResult
+                        ? testResult.values.flatMap((value, i) => isNaN(value) ? [] : [`${scales[i]?.name ?? i + 1}: ${formatNumber(value)}`]).join(', ')
+                        : testResult.error}
+                </div>
+            )}
+
+            <div className="protocol-stats">
+                <span>Accepted: <strong>{stats.accepted}</strong></span>
+                <span>Rejected: <strong className={stats.rejected > 0 ? 'error' : ''}>{stats.rejected}</strong></span>
+                <button onClick={onResetStats}>Reset Counters</button>
+            </div>
+            {stats.lastError && (
+                <div className="protocol-last-error">
+                    Last rejected: {stats.lastError}
+                    <code>{stats.lastRejectedLine}</code>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const App = () => {
+    const [initialProfileStore] = useState<ProfileStore>(loadProfileStore);
+    const [scales, setScales] = useState<Scale[]>(() => profileToScales(getActiveProfile(initialProfileStore)));
+    const [activeProfileName, setActiveProfileName] = useState(() => getActiveProfile(initialProfileStore).name);
+    const [profileNames, setProfileNames] = useState(() => initialProfileStore.profiles.map(p => p.name));
+    const [profileError, setProfileError] = useState<string | null>(null);
+    
+    const [isSimulating, setIsSimulating] = useState(false);
+    const [calibratingScaleId, setCalibratingScaleId] = useState<number | null>(null);
+    const [tareWindowSeconds, setTareWindowSeconds] = useState<number>(loadTareWindowSeconds);
+    /** An averaged tare in progress: readings are summed until the window, timed from the first one, has passed. */
+    const tareAverageRef = useRef<{ ids: number[]; until: number | null; sums: number[]; count: number } | null>(null);
+    const [taringIds, setTaringIds] = useState<number[]>([]);
+    const [sequences, setSequences] = useState<TestSequence[]>(loadSequences);
+    const [sequenceRuns, setSequenceRuns] = useState<SequenceRun[]>(loadSequenceRuns);
+    /** The run in progress: its results so far and the step being executed. */
+    const [activeSequence, setActiveSequence] = useState<ActiveSequence | null>(null);
+    const sequenceControlRef = useRef<{ aborted: boolean; confirmPrompt: (() => void) | null } | null>(null);
+    const [historyScaleId, setHistoryScaleId] = useState<number | null>(null);
+    
+    const [log, setLog] = useState<LogEntry[]>([]);
+    const [logBufferSize, setLogBufferSize] = useState(DEFAULT_LOG_BUFFER_SIZE);
+    const logRef = useRef(log);
+    logRef.current = log;
+    const logBufferSizeRef = useRef(logBufferSize);
+    logBufferSizeRef.current = logBufferSize;
+    const [acquisition] = useState(() => createAcquisitionCore(DEFAULT_LOG_BUFFER_SIZE, UI_REFRESH_INTERVAL_MS));
+    /** Samples that arrived with the latest UI update, for views that need every reading. */
+    const [sampleBatch, setSampleBatch] = useState<LogEntry[]>([]);
+    /** Number of the first sample the UI hasn't taken from the core yet. */
+    const nextShownSampleRef = useRef(0);
+    
+    const [copyButtonText, setCopyButtonText] = useState('Copy to Clipboard');
+    const [statisticsSettings, setStatisticsSettings] = useState<StatisticsSettings>(loadStatisticsSettings);
+    const statisticsSettingsRef = useRef(statisticsSettings);
+    statisticsSettingsRef.current = statisticsSettings;
+
+    const [protocolConfig, setProtocolConfig] = useState<ProtocolConfig>(() => getActiveProfile(initialProfileStore).protocol);
+    const protocolConfigRef = useRef(protocolConfig);
+    protocolConfigRef.current = protocolConfig;
+    const [lineStats, setLineStats] = useState<LineStats>(EMPTY_LINE_STATS);
+
+    const [plateConfig, setPlateConfig] = useState<PlateConfig>(() => getActiveProfile(initialProfileStore).plate);
+
+    const [alarmSettings, setAlarmSettings] = useState<AlarmSettings>(() => getActiveProfile(initialProfileStore).alarms);
+    const alarmSettingsRef = useRef(alarmSettings);
+    alarmSettingsRef.current = alarmSettings;
+    const [alarmEvents, setAlarmEvents] = useState<AlarmEvent[]>([]);
+    const [markers, setMarkers] = useState<LogMarker[]>([]);
+    const markersRef = useRef(markers);
+    markersRef.current = markers;
+    const [activeAlarms, setActiveAlarms] = useState<ActiveAlarms>({});
+    /** Per channel, the sample the next rate is measured from; and the active alarms by "channel:kind". */
+    const alarmMonitorRef = useRef({
+        rates: new Map<string, { time: number; value: number; rate: number | null }>(),
+        active: new Map<string, AlarmEvent>(),
+    });
+
+    const [deviceCommands, setDeviceCommands] = useState<DeviceCommandConfig>(() => getActiveProfile(initialProfileStore).commands);
+    const deviceCommandsRef = useRef(deviceCommands);
+    deviceCommandsRef.current = deviceCommands;
+    const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
+    const pendingCommandsRef = useRef<PendingCommand[]>([]);
+    const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+    const consoleEntryIdRef = useRef(0);
+
+    const [simulatorConfigText, setSimulatorConfigText] = useState(loadSimulatorConfigText);
+    const [simulatorConfig, setSimulatorConfig] = useState<SimulatorConfig>(() => parseSimulatorConfig(simulatorConfigText));
+    const simulatorConfigRef = useRef(simulatorConfig);
+    simulatorConfigRef.current = simulatorConfig;
+
+    const [deviceStatuses, setDeviceStatuses] = useState<SerialStatus[]>([]);
+    const linksRef = useRef<DeviceLink[]>([]);
+    /** Device lines collected towards the next sample under the wait-for-all policy. */
+    const alignmentRef = useRef<{ values: number[]; received: Set<number> }>({ values: [], received: new Set() });
+    const [serialSettings, setSerialSettings] = useState<SerialSettings>(loadSerialSettings);
+    const serialSettingsRef = useRef(serialSettings);
+    serialSettingsRef.current = serialSettings;
+    const [isSerialSettingsOpen, setIsSerialSettingsOpen] = useState(false);
+    const linkCountersRef = useRef({ bytesReceived: 0, validLines: 0, lastValidLineAt: null as number | null });
+    const [linkStats, setLinkStats] = useState<LinkStats>(EMPTY_LINK_STATS);
+    const replayRef = useRef<{ data: ReplayData; index: number; position: number } | null>(null);
+    const [replayStatus, setReplayStatus] = useState<ReplayStatus | null>(null);
+    const isReplaying = replayStatus !== null;
+    const serialStatus = useMemo(() => combineSerialStatuses(protocolConfig.devices, deviceStatuses), [protocolConfig.devices, deviceStatuses]);
+    const isSerialConnected = deviceStatuses.some(status => status.type === 'connected');
+    const isSerialActive = deviceStatuses.some(status => status.type === 'connected' || status.type === 'reconnecting');
+    const isReadingData = isSimulating || isSerialConnected || isReplaying;
+    const isReadingDataRef = useRef(isReadingData);
+    isReadingDataRef.current = isReadingData;
+
+    const scalesRef = useRef(scales);
+    scalesRef.current = scales;
+    const plateConfigRef = useRef(plateConfig);
+    plateConfigRef.current = plateConfig;
+    const recordingRef = useRef<ActiveRecording | null>(null);
+    const [recordingSession, setRecordingSession] = useState<RecordingSession | null>(null);
+    const [sessions, setSessions] = useState<RecordingSession[]>([]);
+    const [viewedSession, setViewedSession] = useState<RecordingSession | null>(null);
+    /** A drift baseline being captured: readings are collected until one statistics window has passed. */
+    const driftBaselineRef = useRef<{ entries: LogEntry[]; until: number | null } | null>(null);
+    const [driftBaseline, setDriftBaseline] = useState<DriftBaseline | null>(null);
+    const [isCapturingBaseline, setIsCapturingBaseline] = useState(false);
+    const [exportSource, setExportSource] = useState<ExportSource | null>(null);
+    const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+
+    const saveConfigToLocalStorage = (scalesToSave: Scale[]) => {
+        updateActiveProfile({ scales: scalesToSave.map(toScaleConfig) });
+    };
+
+    /**
+     * Checks one sample against the alarm limits. React state only changes
+     * when an alarm is raised or cleared.
+     */
+    const checkAlarms = useCallback((entry: LogEntry, scalesForEntry: Scale[]) => {
+        const settings = alarmSettingsRef.current;
+        const monitor = alarmMonitorRef.current;
+        const channels = [
+            { channel: 'totalX', name: 'X Total', value: entry.totalX, limits: settings.totalX, overloadLimit: null as number | null },
+            { channel: 'totalY', name: 'Y Total', value: entry.totalY, limits: settings.totalY, overloadLimit: null as number | null },
+            ...scalesForEntry.map((scale, i) => ({
+                channel: `scale-${scale.id}`,
+                name: scale.name,
+                value: entry.processedValues[i],
+                limits: scale.limits as ChannelLimits,
+                overloadLimit: scale.limits.capacity !== null ? Math.abs(scale.limits.capacity) * settings.overloadPercent / 100 : null,
+            })),
+        ];
+
+        // Alarms of removed scales would never clear, so they are dropped.
+        const known = new Set(channels.map(({ channel }) => channel));
+        let pruned = false;
+        monitor.active.forEach((event, key) => {
+            if (known.has(event.channel)) return;
+            monitor.active.delete(key);
+            pruned = true;
+        });
+        monitor.rates.forEach((_, channel) => {
+            if (!known.has(channel)) monitor.rates.delete(channel);
+        });
+
+        const events: AlarmEvent[] = [];
+        channels.forEach(({ channel, name, value, limits, overloadLimit }) => {
+            if (!Number.isFinite(value)) return;
+            let rateState = monitor.rates.get(channel);
+            if (!rateState) {
+                rateState = { time: entry.timestamp, value, rate: null };
+                monitor.rates.set(channel, rateState);
+            } else if (entry.timestamp - rateState.time >= ALARM_RATE_WINDOW_MS) {
+                rateState.rate = (value - rateState.value) / ((entry.timestamp - rateState.time) / 1000);
+                rateState.time = entry.timestamp;
+                rateState.value = value;
+            }
+
+            const breaches = checkLimits(value, rateState.rate, limits, overloadLimit);
+            (Object.keys(ALARM_KIND_LABELS) as AlarmKind[]).forEach(kind => {
+                const key = `${channel}:${kind}`;
+                const breach = breaches.find(b => b.kind === kind);
+                const raised = monitor.active.get(key);
+                if (breach && !raised) {
+                    const event: AlarmEvent = { timestamp: entry.timestamp, channel, channelName: name, kind, state: 'raised', value: breach.value, limit: breach.limit };
+                    monitor.active.set(key, event);
+                    events.push(event);
+                } else if (!breach && raised) {
+                    monitor.active.delete(key);
+                    events.push({ ...raised, timestamp: entry.timestamp, state: 'cleared', value: kind === 'rate' ? rateState.rate ?? 0 : value });
+                }
+            });
+        });
+        if (events.length === 0 && !pruned) return;
+
+        if (events.length > 0) setAlarmEvents(prev => [...prev, ...events].slice(-MAX_ALARM_EVENTS));
+        const active: ActiveAlarms = {};
+        monitor.active.forEach(event => {
+            active[event.channel] = [...(active[event.channel] ?? []), event.kind];
+        });
+        setActiveAlarms(active);
+        const recording = recordingRef.current;
+        if (recording) {
+            recording.session = { ...recording.session, alarmEvents: [...(recording.session.alarmEvents ?? []), ...events] };
+        }
+        if (settings.audible && events.some(event => event.state === 'raised')) playAlarmTone();
+    }, []);
+
+    /**
+     * Single entry point for new readings from any source. Samples are added to
+     * an active recording and checked against the alarm limits here,
+     * independent of when React renders.
+     * @param source Device that sent the values on its own, for the filters' sample timing.
+     */
+    const ingestRawValues = useCallback((values: number[], timestamp: number = getTimestamp(), source: number = 0) => {
+        const entry = acquisition.ingest(values, timestamp, scalesRef.current, plateConfigRef.current, source);
+        checkAlarms(entry, scalesRef.current);
+        const recording = recordingRef.current;
+        if (recording) {
+            recording.pending.push(entry);
+        }
+    }, [acquisition, checkAlarms]);
+
+    /** Empties the live log, in the core and on screen. */
+    const clearLog = useCallback(() => {
+        acquisition.clear();
+        nextShownSampleRef.current = acquisition.getSampleCount();
+        setLog([]);
+    }, [acquisition]);
+
+    // The UI follows the core at its throttled pace: new samples are appended
+    // to the log and the latest readings shown on the scales.
+    useEffect(() => acquisition.subscribe(() => {
+        const entries = acquisition.readSince(nextShownSampleRef.current);
+        nextShownSampleRef.current = acquisition.getSampleCount();
+        if (entries.length === 0) return;
+        const { rawValues, filteredValues } = acquisition.getLatest();
+        setScales(prevScales => prevScales.map((scale, index) => index < rawValues.length
+            ? { ...scale, rawValue: rawValues[index], filteredValue: filteredValues[index] }
+            : scale
+        ));
+        setSampleBatch(entries);
+        setLog(prevLog => [...prevLog, ...entries].slice(-logBufferSizeRef.current));
+    }), [acquisition]);
+
+    const appendConsoleEntry = useCallback((kind: ConsoleEntry['kind'], text: string) => {
+        const entry = { id: consoleEntryIdRef.current++, time: Date.now(), kind, text };
+        setConsoleEntries(prev => [...prev.slice(-(MAX_CONSOLE_ENTRIES - 1)), entry]);
+    }, []);
+
+    const handleLine = useCallback((line: string, device: number = 0) => {
+        // Replies to pending commands are taken out of the stream before it is
+        // parsed as readings. The oldest matching request gets the line.
+        const pendingIndex = pendingCommandsRef.current.findIndex(pending => pending.device === device && pending.pattern.test(line));
+        if (pendingIndex >= 0) {
+            const [pending] = pendingCommandsRef.current.splice(pendingIndex, 1);
+            clearTimeout(pending.timeoutId);
+            pending.resolve(line);
+            return;
+        }
+
+        const config = protocolConfigRef.current;
+        const result = parseLine(line, config, device);
+        if ('values' in result) {
+            linkCountersRef.current.validLines++;
+            linkCountersRef.current.lastValidLineAt = Date.now();
+            if (config.alignment === 'waitForAll' && config.devices.length > 1) {
+                const aligned = alignmentRef.current;
+                result.values.forEach((value, i) => { if (config.deviceMap[i] === device) aligned.values[i] = value; });
+                aligned.received.add(device);
+                if (aligned.received.size === config.devices.length) {
+                    ingestRawValues(aligned.values);
+                    alignmentRef.current = { values: [], received: new Set() };
+                }
+            } else {
+                ingestRawValues(result.values, getTimestamp(), device);
+            }
+            setLineStats(prev => ({ ...prev, accepted: prev.accepted + 1 }));
+        } else {
+            setLineStats(prev => ({
+                ...prev,
+                rejected: prev.rejected + 1,
+                lastError: result.error,
+                lastRejectedLine: line,
+            }));
+        }
+    }, []);
+
+    // The simulator goes through handleLine like a real device, so the line
+    // protocol, rejection counters and dropouts are all exercised.
+    useEffect(() => {
+        if (!isSimulating) return;
+
+        const state: SimulatorState = { time: 0, sequence: 0, dropoutUntil: 0 };
+        // Samples are due at the configured rate from the anchor. A rate change
+        // moves the anchor, so the new rate doesn't apply to the time already run.
+        let anchor = { at: performance.now(), sequence: 0, sampleRateHz: simulatorConfigRef.current.sampleRateHz };
+        const intervalId = setInterval(() => {
+            const config = simulatorConfigRef.current;
+            const now = performance.now();
+            if (config.sampleRateHz !== anchor.sampleRateHz) anchor = { at: now, sequence: state.sequence, sampleRateHz: config.sampleRateHz };
+            let dueSamples = Math.floor((now - anchor.at) / 1000 * config.sampleRateHz) - (state.sequence - anchor.sequence);
+            const maxSamples = Math.ceil(MAX_SIMULATOR_CATCH_UP_MS / 1000 * config.sampleRateHz);
+            if (dueSamples > maxSamples) {
+                // Time the timer was held back for is skipped rather than generated in one burst.
+                dueSamples = maxSamples;
+                anchor = { at: now, sequence: state.sequence + maxSamples, sampleRateHz: config.sampleRateHz };
+            }
+            for (let i = 0; i < dueSamples; i++) {
+                const lines = simulateLines(config, state, scalesRef.current.length, protocolConfigRef.current);
+                lines?.forEach((line, device) => handleLine(line, device));
+            }
+        }, SIMULATOR_TICK_MS);
+
+        return () => clearInterval(intervalId);
+    }, [isSimulating, handleLine]);
+
+    const setDeviceStatus = useCallback((device: number, status: SerialStatus) => {
+        setDeviceStatuses(prev => {
+            const next = [...prev];
+            next[device] = status;
+            return next;
+        });
+    }, []);
+
+    const getLink = (device: number): DeviceLink =>
+        linksRef.current[device] ??= { port: null, lastPort: null, reader: null, socket: null, networkUrl: null, isClosing: false, cancelReconnect: null };
+
+    const getOpenPorts = () => linksRef.current.flatMap(link => link.port ? [link.port] : []);
+    const hasOpenLinks = () => linksRef.current.some(link => link.port || link.socket);
+
+    /** Splits a received chunk into lines, returning the incomplete remainder. */
+    const handleChunk = (lineBuffer: string, device: number): string => {
+        let eolIndex;
+        while ((eolIndex = lineBuffer.indexOf('\n')) >= 0) {
+            const line = lineBuffer.slice(0, eolIndex).trim();
+            lineBuffer = lineBuffer.slice(eolIndex + 1);
+
+            if (line) {
+                handleLine(line, device);
+            }
+        }
+        return lineBuffer;
+    };
+
+    /**
+     * Reads lines until the port is closed or lost. Framing and parity errors
+     * leave `port.readable` in place and reading resumes; a lost device sets it
+     * to null and ends the loop.
+     */
+    const readFromPort = useCallback(async (port: SerialPort, device: number) => {
+        const link = getLink(device);
+        const decoder = new TextDecoder();
+        let lineBuffer = '';
+        let finished = false;
+
+        while (!finished && port.readable) {
+            const reader = port.readable.getReader();
+            link.reader = reader;
+            try {
+                while (true) {
+                    const { value, done } = await reader.read();
+                    if (done) {
+                        finished = true;
+                        break;
+                    }
+
+                    linkCountersRef.current.bytesReceived += value.byteLength;
+                    lineBuffer = handleChunk(lineBuffer + decoder.decode(value, { stream: true }), device);
+                }
+            } catch (error) {
+                console.warn('Serial read error', error);
+            } finally {
+                reader.releaseLock();
+            }
+        }
+
+        if (!link.isClosing) {
+            handleDeviceLost(device, port);
+        }
+    }, [handleLine]);
+
+    const handleDeviceLost = async (device: number, port: SerialPort) => {
+        const link = getLink(device);
+        link.reader = null;
+        link.port = null;
+        try {
+            await port.close();
+        } catch (error) {
+            // The port is usually already gone; closing just releases it.
+        }
+        handleConnectionLost(device);
+    };
+
+    const handleConnectionLost = (device: number) => {
+        if (serialSettingsRef.current.autoReconnect) {
+            scheduleReconnect(device, 0);
+        } else {
+            getLink(device).networkUrl = null;
+            setDeviceStatus(device, { text: 'Device lost', type: 'error' });
+        }
+    };
+
+    /**
+     * Opens a port for a device slot with the current settings and starts the read loop.
+     * @throws If the port cannot be opened.
+     */
+    const openPort = useCallback(async (device: number, port: SerialPort) => {
+        setDeviceStatus(device, { text: 'Connecting...', type: 'connecting' });
+        await port.open(toSerialOptions(serialSettingsRef.current));
+        if (!hasOpenLinks()) {
+            linkCountersRef.current = { bytesReceived: 0, validLines: 0, lastValidLineAt: null };
+        }
+        const link = getLink(device);
+        link.port = port;
+        link.lastPort = port;
+        // The slot no longer belongs to a network bridge, so neither Disconnect nor a reconnect should go there.
+        link.networkUrl = null;
+        saveRememberedPort(device, { ...port.getInfo(), autoConnect: true });
+        setDeviceStatus(device, { text: 'Connected', type: 'connected' });
+        readFromPort(port, device);
+    }, [readFromPort, setDeviceStatus]);
+
+    /**
+     * Connects a device slot to a WebSocket bridge carrying the same line
+     * protocol as a serial port. Messages may hold partial or several lines.
+     * @throws If the connection cannot be established.
+     */
+    const openSocket = useCallback((device: number, url: string) => new Promise<void>((resolve, reject) => {
+        const link = getLink(device);
+        setDeviceStatus(device, { text: `Connecting to ${url}...`, type: 'connecting' });
+        const socket = new WebSocket(url);
+        socket.binaryType = 'arraybuffer';
+        const decoder = new TextDecoder();
+        let lineBuffer = '';
+        let isOpen = false;
+
+        socket.onopen = () => {
+            isOpen = true;
+            if (!hasOpenLinks()) {
+                linkCountersRef.current = { bytesReceived: 0, validLines: 0, lastValidLineAt: null };
+            }
+            link.socket = socket;
+            link.networkUrl = url;
+            setDeviceStatus(device, { text: `Connected to ${url}`, type: 'connected' });
+            resolve();
+        };
+        socket.onmessage = (event: MessageEvent<string | ArrayBuffer>) => {
+            const bytes = typeof event.data === 'string' ? new TextEncoder().encode(event.data) : new Uint8Array(event.data);
+            linkCountersRef.current.bytesReceived += bytes.byteLength;
+            lineBuffer = handleChunk(lineBuffer + decoder.decode(bytes, { stream: true }), device);
+        };
+        socket.onclose = () => {
+            if (!isOpen) {
+                reject(new Error(`Could not connect to ${url}`));
+                return;
+            }
+            // A deliberate disconnect has already detached the socket.
+            if (link.socket !== socket) return;
+            link.socket = null;
+            handleConnectionLost(device);
+        };
+    }), [setDeviceStatus]);
+
+    /**
+     * Retries a lost device with exponential backoff until it is back or the
+     * user disconnects it.
+     */
+    const scheduleReconnect = (device: number, attempt: number) => {
+        const link = getLink(device);
+        const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+        setDeviceStatus(device, { text: `Device lost, retry ${attempt + 1} in ${Math.ceil(delay / 1000)}s`, type: 'reconnecting' });
+        let cancelled = false;
+        const url = link.networkUrl;
+        // A re-plugged serial device is announced right away, so don't wait out the backoff.
+        const serial = !url && 'serial' in navigator ? navigator.serial : null;
+
+        const stopWaiting = () => {
+            clearTimeout(timeoutId);
+            serial?.removeEventListener('connect', retry);
+        };
+        const retry = async () => {
+            stopWaiting();
+            try {
+                if (url) {
+                    await openSocket(device, url);
+                    if (cancelled) {
+                        // Disconnected while this attempt was under way.
+                        const socket = link.socket;
+                        link.socket = null;
+                        link.networkUrl = null;
+                        socket?.close();
+                        setDeviceStatus(device, { text: 'Disconnected', type: 'idle' });
+                        return;
+                    }
+                } else {
+                    const port = await findRememberedPort(device, getOpenPorts(), link.lastPort);
+                    if (cancelled) return;
+                    if (!port) throw new Error('The device is not available yet.');
+                    await openPort(device, port);
+                }
+                link.cancelReconnect = null;
+                return;
+            } catch (error) {
+                console.warn('Reconnect attempt failed', error);
+            }
+            if (!cancelled) scheduleReconnect(device, attempt + 1);
+        };
+
+        const timeoutId = setTimeout(retry, delay);
+        serial?.addEventListener('connect', retry);
+        link.cancelReconnect = () => {
+            cancelled = true;
+            stopWaiting();
+            link.cancelReconnect = null;
+        };
+    };
+
+    const handleConnectDevice = useCallback(async (device: number) => {
+        if (!('serial' in navigator)) {
+            alert('Web Serial API not supported by your browser. Try Chrome or Edge.');
+            return;
+        }
+
+        try {
+            const port = await navigator.serial.requestPort();
+            if (getOpenPorts().includes(port)) {
+                alert('That port is already connected as another device.');
+                return;
+            }
+            await openPort(device, port);
+        } catch (error) {
+            setDeviceStatus(device, { text: `Error: ${(error as Error).message}`, type: 'error' });
+            console.error('There was an error opening the serial port:', error);
+        }
+    }, [openPort, setDeviceStatus]);
+
+    const handleConnectNetwork = useCallback(async (device: number) => {
+        const url = window.prompt('WebSocket URL of the bridge:', localStorage.getItem(NETWORK_URL_STORAGE_KEY) ?? DEFAULT_NETWORK_URL)?.trim();
+        if (!url) return;
+        if (!/^wss?:\/\//.test(url)) {
+            alert('The URL must start with ws:// or wss://');
+            return;
+        }
+        localStorage.setItem(NETWORK_URL_STORAGE_KEY, url);
+
+        try {
+            await openSocket(device, url);
+        } catch (error) {
+            setDeviceStatus(device, { text: `Error: ${(error as Error).message}`, type: 'error' });
+        }
+    }, [openSocket, setDeviceStatus]);
+    
+    const handleDisconnectDevice = useCallback(async (device: number) => {
+        const link = getLink(device);
+        link.cancelReconnect?.();
+        if (link.networkUrl) {
+            const socket = link.socket;
+            link.socket = null;
+            link.networkUrl = null;
+            socket?.close();
+            setDeviceStatus(device, { text: 'Disconnected', type: 'idle' });
+            return;
+        }
+        link.isClosing = true;
+        try {
+            if (link.reader) {
+                await link.reader.cancel();
+                link.reader = null;
+            }
+            if (link.port) {
+                await link.port.close();
+                link.port = null;
+            }
+        } catch (error) {
+            console.warn('Error while closing the serial port', error);
+        } finally {
+            link.isClosing = false;
+        }
+        const remembered = loadRememberedPorts()[device];
+        if (remembered) saveRememberedPort(device, { ...remembered, autoConnect: false });
+        setDeviceStatus(device, { text: 'Disconnected', type: 'idle' });
+    }, [setDeviceStatus]);
+
+    const handleDisconnectAll = () => {
+        linksRef.current.forEach((link, device) => {
+            if (link.port || link.socket || link.cancelReconnect) handleDisconnectDevice(device);
+        });
+    };
+
+    // Reopen the ports used last time, if they are still granted.
+    useEffect(() => {
+        if (!('serial' in navigator) || !serialSettingsRef.current.reconnectOnLoad) return;
+        (async () => {
+            const remembered = loadRememberedPorts();
+            for (const device of protocolConfigRef.current.devices.keys()) {
+                if (!remembered[device]?.autoConnect) continue;
+                const port = await findRememberedPort(device, getOpenPorts());
+                if (!port) continue;
+                try {
+                    await openPort(device, port);
+                } catch (error) {
+                    setDeviceStatus(device, { text: `Error: ${(error as Error).message}`, type: 'error' });
+                }
+            }
+        })();
+    }, [openPort, setDeviceStatus]);
+
+    useEffect(() => {
+        if (!isReadingData && !isSerialActive) return;
+        let previousLines = linkCountersRef.current.validLines;
+        let previousTime = performance.now();
+
+        const intervalId = setInterval(() => {
+            const counters = linkCountersRef.current;
+            const now = performance.now();
+            const linesPerSecond = (counters.validLines - previousLines) / ((now - previousTime) / 1000);
+            previousLines = counters.validLines;
+            previousTime = now;
+            setLinkStats({
+                bytesReceived: counters.bytesReceived,
+                linesPerSecond,
+                lastValidLineAt: counters.lastValidLineAt,
+                updatedAt: Date.now(),
+            });
+        }, LINK_STATS_INTERVAL_MS);
+
+        return () => clearInterval(intervalId);
+    }, [isReadingData, isSerialActive]);
+
+    /**
+     * Writes one line to the device. Writes are queued so concurrent commands
+     * never interleave their bytes.
+     */
+    const writeLine = useCallback((text: string, device: number): Promise<void> => {
+        const write = writeQueueRef.current.then(async () => {
+            const link = getLink(device);
+            const data = text + deviceCommandsRef.current.lineTerminator;
+            if (link.socket) {
+                link.socket.send(data);
+                return;
+            }
+            const writable = link.port?.writable;
+            if (!writable) throw new Error('No device is connected.');
+            const writer = writable.getWriter();
+            try {
+                await writer.write(new TextEncoder().encode(data));
+            } finally {
+                writer.releaseLock();
+            }
+        });
+        writeQueueRef.current = write.catch(() => undefined);
+        return write;
+    }, []);
+
+    /**
+     * Sends a command and, if it has a response pattern, waits for the matching reply.
+     * @returns The reply line, or null for commands without a reply. Timeouts and
+     * write errors are reported in the console and resolve to null.
+     */
+    const sendCommand = useCallback(async (text: string, responsePattern: string, timeoutMs: number, device: number = 0): Promise<string | null> => {
+        const devices = protocolConfigRef.current.devices;
+        const label = devices.length > 1 ? `${devices[device]}: ${text}` : text;
+        let response: Promise<string | null> = Promise.resolve(null);
+        if (responsePattern) {
+            // Registered before writing so a fast reply cannot slip past.
+            response = new Promise(resolve => {
+                const pending: PendingCommand = {
+                    device,
+                    pattern: new RegExp(responsePattern),
+                    resolve,
+                    timeoutId: setTimeout(() => {
+                        pendingCommandsRef.current = pendingCommandsRef.current.filter(p => p !== pending);
+                        appendConsoleEntry('timeout', `No reply to "${label}" within ${timeoutMs} ms`);
+                        resolve(null);
+                    }, timeoutMs),
+                };
+                pendingCommandsRef.current.push(pending);
+            });
+        }
+
+        try {
+            await writeLine(text, device);
+            appendConsoleEntry('sent', label);
+        } catch (error) {
+            // The device's other callers would otherwise wait for a reply that can't come.
+            const dropped = pendingCommandsRef.current.filter(pending => pending.device === device);
+            pendingCommandsRef.current = pendingCommandsRef.current.filter(pending => pending.device !== device);
+            dropped.forEach(pending => {
+                clearTimeout(pending.timeoutId);
+                pending.resolve(null);
+            });
+            appendConsoleEntry('error', `Could not send "${label}": ${(error as Error).message}`);
+            return null;
+        }
+
+        const reply = await response;
+        if (reply !== null) appendConsoleEntry('response', devices.length > 1 ? `${devices[device]}: ${reply}` : reply);
+        return reply;
+    }, [writeLine, appendConsoleEntry]);
+
+    const handleRunCommand = (command: DeviceCommand, argument: string, device: number) => {
+        sendCommand(command.template.replaceAll('{value}', () => argument.trim()), command.responsePattern, command.timeoutMs, device);
+    };
+
+    const handleDeviceCommandsChange = (config: DeviceCommandConfig) => {
+        setDeviceCommands(config);
+        updateActiveProfile({ commands: config });
+    };
+
+    const handleSaveSerialSettings = (settings: SerialSettings) => {
+        setSerialSettings(settings);
+        try {
+            localStorage.setItem(SERIAL_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+        } catch (error) {
+            console.error("Failed to save serial settings to localStorage", error);
+        }
+    };
+
+    const { processedScales, totalX, totalY, resultant } = useMemo(() => processScales(scales, plateConfig), [scales, plateConfig]);
+
+    // A new source starts its filters, sample timing and alarm rates afresh
+    // instead of blending into whatever the previous one left behind.
+    useEffect(() => {
+        if (!isReadingData) return;
+        acquisition.resetFilters();
+        // Active alarms stay so the first samples clear them with an event; rates restart.
+        alarmMonitorRef.current.rates.clear();
+    }, [isReadingData, acquisition]);
+
+    useEffect(() => {
+        acquisition.setCapacity(logBufferSize);
+        if (!viewedSession) setLog(prevLog => prevLog.slice(-logBufferSize));
+    }, [logBufferSize, acquisition]);
+
+    const refreshSessions = useCallback(async () => {
+        try {
+            setSessions(await listSessions());
+        } catch (error) {
+            console.error("Failed to list recorded sessions", error);
+        }
+    }, []);
+
+    // A session still marked as recording on load was cut short by a reload or crash.
+    useEffect(() => {
+        (async () => {
+            try {
+                const stale = (await listSessions()).filter(session => session.status === 'recording');
+                await Promise.all(stale.map(session => saveSession({ ...session, status: 'interrupted' })));
+            } catch (error) {
+                console.error("Failed to recover interrupted sessions", error);
+            }
+            refreshSessions();
+        })();
+    }, [refreshSessions]);
+
+    const flushRecording = useCallback(() => {
+        const recording = recordingRef.current;
+        if (!recording || recording.pending.length === 0) return recording?.writeQueue;
+
+        const samples = recording.pending;
+        const index = recording.nextChunkIndex++;
+        recording.pending = [];
+        recording.session = { ...recording.session, sampleCount: recording.session.sampleCount + samples.length };
+        const session = recording.session;
+        recording.writeQueue = recording.writeQueue
+            .then(() => appendSessionChunk(session, index, samples))
+            .catch(error => console.error("Failed to write recorded samples", error));
+        setRecordingSession(session);
+        return recording.writeQueue;
+    }, []);
+
+    useEffect(() => {
+        if (!recordingSession) return;
+        const intervalId = setInterval(flushRecording, RECORDING_FLUSH_INTERVAL_MS);
+        return () => clearInterval(intervalId);
+    }, [recordingSession?.id, flushRecording]);
+
+    const handleStartRecording = async () => {
+        const session: RecordingSession = {
+            id: crypto.randomUUID(),
+            name: `Session ${new Date().toLocaleString()}`,
+            startedAt: Date.now(),
+            endedAt: null,
+            status: 'recording',
+            sampleCount: 0,
+            scaleConfig: scales.map(toScaleConfig),
+            protocol: protocolConfig,
+            alarmEvents: [],
+            plate: plateConfig,
+            markers: [],
+        };
+        try {
+            await saveSession(session);
+        } catch (error) {
+            alert(`Could not start recording: ${(error as Error).message}`);
+            return;
+        }
+        recordingRef.current = { session, pending: [], nextChunkIndex: 0, writeQueue: Promise.resolve() };
+        setRecordingSession(session);
+        setViewedSession(null);
+        refreshSessions();
+    };
+
+    const handleStopRecording = async () => {
+        const recording = recordingRef.current;
+        if (!recording) return;
+        await flushRecording();
+        recordingRef.current = null;
+        setRecordingSession(null);
+        try {
+            await saveSession({ ...recording.session, endedAt: Date.now(), status: 'complete' });
+        } catch (error) {
+            console.error("Failed to finalise the recorded session", error);
+        }
+        refreshSessions();
+    };
+
+    const handleRenameSession = async (session: RecordingSession) => {
+        const name = window.prompt('New name for this session:', session.name)?.trim();
+        if (!name) return;
+        const recording = recordingRef.current;
+        let renamed = { ...session, name };
+        if (recording?.session.id === session.id) {
+            // The next flush rewrites the metadata, so rename the in-memory copy too. It is
+            // also what gets saved, since the listed copy lags behind on samples and markers.
+            recording.session = { ...recording.session, name };
+            renamed = recording.session;
+            setRecordingSession(recording.session);
+        }
+        try {
+            await saveSession(renamed);
+        } catch (error) {
+            alert(`Could not rename the session: ${(error as Error).message}`);
+            return;
+        }
+        if (viewedSession?.id === session.id) setViewedSession({ ...viewedSession, name });
+        refreshSessions();
+    };
+
+    const handleDeleteSession = async (session: RecordingSession) => {
+        if (!window.confirm(`Delete the session "${session.name}" and all its samples?`)) return;
+        try {
+            await deleteSession(session.id);
+        } catch (error) {
+            alert(`Could not delete the session: ${(error as Error).message}`);
+            return;
+        }
+        if (viewedSession?.id === session.id) {
+            setViewedSession(null);
+            setLog([]);
+        }
+        refreshSessions();
+    };
+
+    /**
+     * Loads a recorded session into the log so the charts and log display show it.
+     */
+    const handleOpenSession = async (session: RecordingSession) => {
+        try {
+            const samples = await loadSessionSamples(session.id);
+            setLog(samples);
+            setViewedSession(session);
+        } catch (error) {
+            alert(`Could not open the session: ${(error as Error).message}`);
+        }
+    };
+
+    const handleExportSession = async (session: RecordingSession) => {
+        try {
+            setExportSource({
+                name: session.name,
+                entries: await loadSessionSamples(session.id),
+                scales: session.scaleConfig,
+                alarmEvents: session.alarmEvents ?? [],
+                markers: session.markers ?? [],
+                plate: session.plate ?? plateConfig,
+            });
+        } catch (error) {
+            alert(`Could not load the session: ${(error as Error).message}`);
+        }
+    };
+
+    /**
+     * Exports the log as shown: a viewed session keeps the configuration it
+     * was recorded with, a live log uses the current one.
+     */
+    const handleExportLog = () => {
+        const first = log[0]?.timestamp ?? 0;
+        const last = log[log.length - 1]?.timestamp ?? 0;
+        setExportSource({
+            name: viewedSession?.name ?? 'Live log',
+            entries: log,
+            scales: viewedSession?.scaleConfig ?? scales.map(toScaleConfig),
+            alarmEvents: viewedSession?.alarmEvents ?? alarmEvents.filter(event => event.timestamp >= first && event.timestamp <= last),
+            markers: viewedSession?.markers ?? markers.filter(marker => marker.timestamp >= first && marker.timestamp <= last),
+            plate: viewedSession?.plate ?? plateConfig,
+        });
+    };
+
+    const startReplay = (data: ReplayData) => {
+        replayRef.current = { data, index: 0, position: 0 };
+        clearLog();
+        setViewedSession(null);
+        setReplayStatus({
+            name: data.name,
+            sampleCount: data.samples.length,
+            duration: data.samples[data.samples.length - 1].time,
+            position: 0,
+            playing: false,
+            speed: 1,
+            loop: false,
+            hasRecordedConfig: !!data.scaleConfig,
+            warnings: [
+                ...data.warnings,
+                ...(data.samples[0].rawValues.length !== scales.length
+                    ? [`The data has ${data.samples[0].rawValues.length} channels but ${scales.length} scales are configured.`]
+                    : []),
+            ],
+        });
+    };
+
+    const handleLoadReplayFile = async (file: File, sampleRateHz: number) => {
+        try {
+            startReplay(parseReplayFile(await readTextFile(file), file.name, protocolConfig, sampleRateHz));
+        } catch (error) {
+            alert(`Could not load "${file.name}" for replay: ${(error as Error).message}`);
+        }
+    };
+
+    const handleReplaySession = async (session: RecordingSession) => {
+        try {
+            const entries = await loadSessionSamples(session.id);
+            if (entries.length === 0) {
+                alert('This session has no samples.');
+                return;
+            }
+            startReplay(sessionToReplayData(session, entries));
+        } catch (error) {
+            alert(`Could not load the session: ${(error as Error).message}`);
+        }
+    };
+
+    const handleCloseReplay = () => {
+        replayRef.current = null;
+        setReplayStatus(null);
+    };
+
+    /**
+     * Jumps to a point in the replay. The log and filters are cleared because
+     * their history (and the stability slopes computed from it) no longer leads
+     * up to the new position.
+     */
+    const handleSeekReplay = (position: number) => {
+        const replay = replayRef.current;
+        if (!replay) return;
+        replay.position = position;
+        replay.index = findReplayIndex(replay.data.samples, position);
+        const current = replay.data.samples[Math.max(0, replay.index - 1)];
+        clearLog();
+        acquisition.resetFilters();
+        ingestRawValues(current.rawValues, replay.data.startedAt + current.time);
+        setReplayStatus(status => status && { ...status, position });
+    };
+
+    const handleToggleReplay = () => {
+        if (!replayStatus) return;
+        // Pressing play at the end starts over.
+        if (!replayStatus.playing && replayStatus.position >= replayStatus.duration) {
+            handleSeekReplay(0);
+        }
+        setReplayStatus(status => status && { ...status, playing: !status.playing });
+    };
+
+    /**
+     * Copies tare, calibration, category and geometry from the configuration the data
+     * was recorded with onto the current scales.
+     */
+    const handleApplyRecordedConfig = () => {
+        const recorded = replayRef.current?.data.scaleConfig;
+        if (!recorded) return;
+        setScales(prevScales => {
+            const updatedScales = prevScales.map((scale, index) => recorded[index]
+                ? {
+                    ...scale,
+                    tareValue: recorded[index].tareValue,
+                    calibration: recorded[index].calibration,
+                    category: recorded[index].category,
+                    geometry: recorded[index].geometry,
+                    filters: recorded[index].filters,
+                    unit: recorded[index].unit,
+                    precision: recorded[index].precision,
+                }
+                : scale
+            );
+            saveConfigToLocalStorage(updatedScales);
+            return updatedScales;
+        });
+    };
+
+    // Replay clock: advances by wall time times speed and feeds every sample it passes.
+    useEffect(() => {
+        if (!replayStatus?.playing) return;
+        const { speed, loop } = replayStatus;
+        let lastTick = performance.now();
+
+        const intervalId = setInterval(() => {
+            const replay = replayRef.current;
+            if (!replay) return;
+            const now = performance.now();
+            replay.position += (now - lastTick) * speed;
+            lastTick = now;
+
+            const { samples, startedAt } = replay.data;
+            while (replay.index < samples.length && samples[replay.index].time <= replay.position) {
+                const sample = samples[replay.index++];
+                ingestRawValues(sample.rawValues, startedAt + sample.time);
+            }
+
+            if (replay.index >= samples.length) {
+                if (loop) {
+                    // Like a seek: the log and filters must not run back in time.
+                    replay.index = 0;
+                    replay.position = 0;
+                    clearLog();
+                    acquisition.resetFilters();
+                } else {
+                    replay.position = samples[samples.length - 1].time;
+                    setReplayStatus(status => status && { ...status, position: replay.position, playing: false });
+                    return;
+                }
+            }
+            setReplayStatus(status => status && { ...status, position: replay.position });
+        }, REPLAY_TICK_MS);
+
+        return () => clearInterval(intervalId);
+    }, [replayStatus?.playing, replayStatus?.speed, replayStatus?.loop, ingestRawValues]);
+
+    const handleCloseSession = () => {
+        setViewedSession(null);
+        setLog([]);
+    };
+
+    // Stop recording when the data source goes away, and leave a viewed
+    // session when live data starts so the two don't mix in the log.
+    useEffect(() => {
+        // A reconnecting device is expected back, so a long recording survives a cable glitch.
+        // Its slot reads 'connecting' during each attempt, hence the check for a pending retry.
+        const isReconnecting = linksRef.current.some(link => link?.cancelReconnect);
+        if (!isReadingData && !isSerialActive && !isReconnecting && recordingRef.current) {
+            handleStopRecording();
+        }
+        if (isReadingData && viewedSession) {
+            handleCloseSession();
+        }
+    }, [isReadingData, isSerialActive]);
+
+    const hasFilters = scales.some(scale => scale.filters.length > 0);
+    const alarmTitle = (channel: string) => activeAlarms[channel]?.map(kind => ALARM_KIND_LABELS[kind]).join(', ');
+    // A recorded session has no baseline of its own; the live one doesn't apply to it.
+    const statistics = useMemo(
+        () => calculateLogStatistics(log, scales, statisticsSettings, plateConfig, viewedSession ? null : driftBaseline),
+        // Scales change with every reading; the log already does, so recompute on it alone.
+        [log, scales.length, statisticsSettings, plateConfig, driftBaseline, viewedSession]
+    );
+    const statisticsRef = useRef(statistics);
+    statisticsRef.current = statistics;
+
+    /** Drops the drift baseline and averages a new one over the next statistics window. */
+    const startDriftBaseline = () => {
+        driftBaselineRef.current = { entries: [], until: null };
+        setDriftBaseline(null);
+        setIsCapturingBaseline(true);
+    };
+
+    useEffect(() => {
+        const pending = driftBaselineRef.current;
+        if (!pending || sampleBatch.length === 0) return;
+        for (const entry of sampleBatch) {
+            pending.until ??= entry.timestamp + statisticsSettings.windowSeconds * 1000;
+            if (entry.timestamp > pending.until) break;
+            pending.entries.push(entry);
+        }
+        if (sampleBatch[sampleBatch.length - 1].timestamp < pending.until) return;
+
+        driftBaselineRef.current = null;
+        setIsCapturingBaseline(false);
+        const current = scalesRef.current;
+        const means = calculateLogStatistics(pending.entries, current, statisticsSettings, plateConfig, null);
+        setDriftBaseline({
+            capturedAt: pending.entries[0].timestamp,
+            totalX: means.totalX.mean,
+            totalY: means.totalY.mean,
+            scales: Object.fromEntries(current.map((scale, i) => [scale.id, means.scales[i].mean])),
+        });
+    }, [sampleBatch]);
 
-    const saveConfigToLocalStorage = (scalesToSave: Scale[]) => {
+    // Drift is measured from the first window of each run; a baseline can't be taken without data.
+    useEffect(() => {
+        if (isReadingData) {
+            startDriftBaseline();
+        } else if (driftBaselineRef.current) {
+            driftBaselineRef.current = null;
+            setIsCapturingBaseline(false);
+        }
+    }, [isReadingData]);
+
+    const handleStatisticsSettingsChange = (settings: StatisticsSettings) => {
+        // The baseline has to cover the same span and values as the window it is compared with.
+        if (settings.windowSeconds !== statisticsSettings.windowSeconds || settings.source !== statisticsSettings.source) {
+            if (isReadingData) startDriftBaseline();
+            else setDriftBaseline(null);
+        }
+        setStatisticsSettings(settings);
         try {
-            const scalesConfig = scalesToSave.map(({ id, name, tareValue, calibrationSlope, category }) => ({
-                id,
-                name,
-                tareValue,
-                calibrationSlope,
-                category,
-            }));
-            localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(scalesConfig));
+            localStorage.setItem(STATISTICS_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
         } catch (error) {
-            console.error("Failed to save scales configuration to localStorage", error);
+            console.error("Failed to save statistics settings to localStorage", error);
         }
     };
 
-    useEffect(() => {
-        if (!isSimulating) return;
-
-        const intervalId = setInterval(() => {
-            setScales(prevScales => 
-                prevScales.map(scale => ({
-                    ...scale,
-                    rawValue: scale.rawValue + (Math.random() - 0.5) * 0.1,
-                }))
-            );
-        }, 100); 
+    const updateScalesAndSave = (update: (scale: Scale) => Scale) => {
+        setScales(prevScales => {
+            const updatedScales = prevScales.map(update);
+            saveConfigToLocalStorage(updatedScales);
+            return updatedScales;
+        });
+    };
 
-        return () => clearInterval(intervalId);
-    }, [isSimulating]);
-    
-    const handleConnectDevice = useCallback(async () => {
-        if (!('serial' in navigator)) {
-            alert('Web Serial API not supported by your browser. Try Chrome or Edge.');
+    /**
+     * Tares the given scales on their latest reading, or on the mean over the
+     * tare window when one is set.
+     */
+    const handleTare = (ids: number[]) => {
+        if (tareWindowSeconds > 0) {
+            tareAverageRef.current = { ids, until: null, sums: ids.map(() => 0), count: 0 };
+            setTaringIds(ids);
             return;
         }
+        // The core has the newest readings; the scales only get them at the next UI update.
+        const { filteredValues } = acquisition.getLatest();
+        const indices = new Map(scales.map((scale, index) => [scale.id, index]));
+        const timestamp = Date.now();
+        updateScalesAndSave(scale => ids.includes(scale.id)
+            ? applyTare(scale, filteredValues[indices.get(scale.id)] ?? scale.filteredValue, 'instant', timestamp)
+            : scale);
+        if (isReadingData) startDriftBaseline();
+    };
+    // A test sequence runs across renders; it tares with the latest scales and tare window.
+    const handleTareRef = useRef(handleTare);
+    handleTareRef.current = handleTare;
 
-        try {
-            const port = await navigator.serial.requestPort();
-            portRef.current = port;
-            setSerialStatus({ text: 'Connecting...', type: 'connecting' });
-            await port.open({ baudRate: 9600 });
-            setSerialStatus({ text: 'Connected', type: 'connected' });
-            
-            readFromPort(port);
+    // An averaged tare sums the raw readings of each batch the UI receives. The
+    // filters only reshape noise, so the raw mean is what they would settle to.
+    useEffect(() => {
+        const pending = tareAverageRef.current;
+        if (!pending || sampleBatch.length === 0) return;
+        const indices = pending.ids.map(id => scalesRef.current.findIndex(scale => scale.id === id));
+        for (const entry of sampleBatch) {
+            pending.until ??= entry.timestamp + tareWindowSeconds * 1000;
+            if (entry.timestamp > pending.until) break;
+            indices.forEach((index, i) => { pending.sums[i] += entry.rawValues[index] ?? 0; });
+            pending.count++;
+        }
+        if (sampleBatch[sampleBatch.length - 1].timestamp < pending.until) return;
+
+        tareAverageRef.current = null;
+        setTaringIds([]);
+        const timestamp = Date.now();
+        updateScalesAndSave(scale => {
+            const i = pending.ids.indexOf(scale.id);
+            return i < 0 ? scale : applyTare(scale, pending.sums[i] / pending.count, 'average', timestamp);
+        });
+        startDriftBaseline();
+    }, [sampleBatch]);
+
+    // An averaged tare can't finish without data, so it is dropped when the source stops.
+    useEffect(() => {
+        if (isReadingData) return;
+        tareAverageRef.current = null;
+        setTaringIds([]);
+    }, [isReadingData]);
 
+    const handleSetTare = (id: number, value: number) => {
+        updateScalesAndSave(scale => scale.id === id ? applyTare(scale, value, 'manual') : scale);
+        if (isReadingData) startDriftBaseline();
+    };
+
+    const handleUndoTare = (id: number) => {
+        updateScalesAndSave(scale => scale.id === id ? undoTare(scale) : scale);
+        if (isReadingData) startDriftBaseline();
+    };
+
+    const handleZeroTrackingChange = (id: number, patch: Partial<ZeroTracking>) => {
+        updateScalesAndSave(scale => scale.id === id ? { ...scale, zeroTracking: { ...scale.zeroTracking, ...patch } } : scale);
+    };
+
+    const saveSequences = (updated: TestSequence[]) => {
+        setSequences(updated);
+        try {
+            localStorage.setItem(SEQUENCES_STORAGE_KEY, JSON.stringify(updated));
         } catch (error) {
-            setSerialStatus({ text: `Error: ${(error as Error).message}`, type: 'error' });
-            console.error('There was an error opening the serial port:', error);
+            console.error("Failed to save test sequences to localStorage", error);
         }
-    }, []);
+    };
 
-    const readFromPort = useCallback(async (port: SerialPort) => {
-        const decoder = new TextDecoder();
-        let lineBuffer = '';
-        const reader = port.readable?.getReader();
-        if (!reader) return;
-        readerRef.current = reader;
+    const saveSequenceRuns = (updater: (runs: SequenceRun[]) => SequenceRun[]) => {
+        setSequenceRuns(prevRuns => {
+            const updated = updater(prevRuns).slice(0, MAX_SEQUENCE_RUNS);
+            try {
+                localStorage.setItem(SEQUENCE_RUNS_STORAGE_KEY, JSON.stringify(updated));
+            } catch (error) {
+                console.error("Failed to save test reports to localStorage", error);
+            }
+            return updated;
+        });
+    };
+
+    /** Saves a sequence, replacing any with the same name. */
+    const handleSaveSequence = (sequence: TestSequence) => {
+        const index = sequences.findIndex(existing => existing.name === sequence.name);
+        saveSequences(index < 0 ? [...sequences, sequence] : sequences.map((existing, i) => i === index ? sequence : existing));
+    };
+
+    const handleDeleteSequence = (name: string) => {
+        if (!window.confirm(`Delete the test sequence "${name}"?`)) return;
+        saveSequences(sequences.filter(sequence => sequence.name !== name));
+    };
+
+    /**
+     * Runs a test sequence against the live data. A step that can't complete
+     * (a timeout or no data) skips the rest of the run; failed checks don't,
+     * so one report shows every out-of-range value. An unexpected error fails
+     * the step it happened in, and the report is saved all the same.
+     */
+    const runSequence = async (sequence: TestSequence, operator: string) => {
+        const control = { aborted: false, confirmPrompt: null as (() => void) | null };
+        sequenceControlRef.current = control;
+        const run: SequenceRun = {
+            id: crypto.randomUUID(),
+            sequenceName: sequence.name,
+            operator,
+            startedAt: Date.now(),
+            endedAt: Date.now(),
+            result: 'passed',
+            steps: [],
+        };
+        const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+        /** Waits that need live data stop when the run is aborted or the source stops. */
+        const canKeepWaiting = () => !control.aborted && isReadingDataRef.current;
+        let recorded: LogEntry[] = [];
+        let halted = false;
 
+        let i = 0;
         try {
-            while (true) {
-                const { value, done } = await reader.read();
-                if (done) break;
+            for (; i < sequence.steps.length; i++) {
+                const step = sequence.steps[i];
+                const finish = (status: SequenceStepResult['status'], detail: string, measured: number | null = null, unit: Unit | null = null) => {
+                    run.steps.push({ step, status, detail, measured, unit, finishedAt: Date.now() });
+                };
+                if (control.aborted || halted) {
+                    finish('skipped', control.aborted ? 'Run aborted' : 'Skipped after an earlier step could not complete');
+                    continue;
+                }
+                setActiveSequence({ run: { ...run, steps: [...run.steps] }, stepIndex: i, step });
 
-                const chunk = decoder.decode(value, { stream: true });
-                lineBuffer += chunk;
-                
-                let eolIndex;
-                while ((eolIndex = lineBuffer.indexOf('\n')) >= 0) {
-                    const line = lineBuffer.slice(0, eolIndex).trim();
-                    lineBuffer = lineBuffer.slice(eolIndex + 1);
-
-                    if (line) {
-                        const values = line.split('\t').map(parseFloat);
-                        if (values.length === 8 && values.every(v => !isNaN(v))) {
-                            setScales(prevScales =>
-                                prevScales.map((scale, index) => ({
-                                    ...scale,
-                                    rawValue: values[index],
-                                }))
-                            );
+                switch (step.type) {
+                    case 'prompt': {
+                        await new Promise<void>(resolve => { control.confirmPrompt = resolve; });
+                        control.confirmPrompt = null;
+                        if (control.aborted) finish('skipped', 'Run aborted');
+                        else finish('passed', 'Confirmed by operator');
+                        break;
+                    }
+                    case 'waitStable': {
+                        const channel = resolveSequenceChannel(step.channel, scalesRef.current, plateConfigRef.current);
+                        if (!channel) {
+                            finish('failed', `Unknown channel ${step.channel}`);
+                            halted = true;
+                            break;
+                        }
+                        const startedAt = Date.now();
+                        while (canKeepWaiting() && channel.statistics(statisticsRef.current).isStable !== true && Date.now() - startedAt < step.timeout * 1000) {
+                            await wait(UI_REFRESH_INTERVAL_MS);
+                        }
+                        if (control.aborted) {
+                            finish('skipped', 'Run aborted');
+                        } else if (!isReadingDataRef.current) {
+                            finish('failed', 'The data source stopped');
+                            halted = true;
+                        } else if (channel.statistics(statisticsRef.current).isStable === true) {
+                            finish('passed', `${channel.name} stable after ${((Date.now() - startedAt) / 1000).toFixed(1)} s`);
+                        } else {
+                            finish('failed', `${channel.name} not stable within ${step.timeout} s`);
+                            halted = true;
+                        }
+                        break;
+                    }
+                    case 'tare': {
+                        const ids = step.scaleIds ?? scalesRef.current.map(scale => scale.id);
+                        const missing = ids.filter(id => !scalesRef.current.some(scale => scale.id === id));
+                        if (missing.length > 0) {
+                            finish('failed', `No scale with id ${missing.join(', ')}`);
+                            halted = true;
+                            break;
+                        }
+                        handleTareRef.current(ids);
+                        while (canKeepWaiting() && tareAverageRef.current) await wait(UI_REFRESH_INTERVAL_MS);
+                        // Let the new tare reach the acquisition core before anything is measured.
+                        if (canKeepWaiting()) await wait(UI_REFRESH_INTERVAL_MS * 2);
+                        if (control.aborted) {
+                            finish('skipped', 'Run aborted');
+                        } else if (!isReadingDataRef.current) {
+                            finish('failed', 'The data source stopped');
+                            halted = true;
+                        } else {
+                            finish('passed', `Tared ${ids.length} scale(s)`);
+                        }
+                        break;
+                    }
+                    case 'record': {
+                        recorded = [];
+                        let next = acquisition.getSampleCount();
+                        const startedAt = Date.now();
+                        while (canKeepWaiting() && Date.now() - startedAt < step.duration * 1000) {
+                            await wait(UI_REFRESH_INTERVAL_MS);
+                            recorded.push(...acquisition.readSince(next));
+                            next = acquisition.getSampleCount();
                         }
+                        if (control.aborted) {
+                            finish('skipped', 'Run aborted');
+                        } else if (!isReadingDataRef.current) {
+                            finish('failed', 'The data source stopped');
+                            halted = true;
+                        } else if (recorded.length === 0) {
+                            finish('failed', 'No samples arrived');
+                            halted = true;
+                        } else {
+                            finish('passed', `${recorded.length} samples`);
+                        }
+                        break;
+                    }
+                    case 'assert': {
+                        const channel = resolveSequenceChannel(step.channel, scalesRef.current, plateConfigRef.current);
+                        if (!channel) {
+                            finish('failed', `Unknown channel ${step.channel}`);
+                            break;
+                        }
+                        let measured: number;
+                        if (step.statistic === 'value') {
+                            const latest = acquisition.readSince(acquisition.getSampleCount() - 1)[0];
+                            if (!latest) {
+                                finish('failed', 'No reading available');
+                                break;
+                            }
+                            measured = channel.value(latest);
+                        } else {
+                            const values = recorded.map(channel.value);
+                            const times = recorded.map(entry => (entry.timestamp - recorded[0].timestamp) / 1000);
+                            measured = calculateChannelStatistics(times, values, null, statisticsSettingsRef.current)[step.statistic];
+                        }
+                        const inRange = (step.min === undefined || measured >= step.min) && (step.max === undefined || measured <= step.max);
+                        const range = `${step.min ?? '-\u221e'} to ${step.max ?? '\u221e'}`;
+                        finish(inRange ? 'passed' : 'failed', `${channel.name} ${SEQUENCE_STATISTIC_LABELS[step.statistic]} ${formatQuantity(measured, channel.unit, channel.precision)}, expected ${range}`, measured, channel.unit);
+                        break;
                     }
                 }
             }
         } catch (error) {
-            console.warn('Read loop cancelled', error);
+            console.error("Test sequence step failed", error);
+            const finishedAt = Date.now();
+            run.steps.push({ step: sequence.steps[i], status: 'failed', detail: `Error: ${(error as Error).message}`, measured: null, unit: null, finishedAt });
+            sequence.steps.slice(i + 1).forEach(step => {
+                run.steps.push({ step, status: 'skipped', detail: 'Skipped after an earlier step could not complete', measured: null, unit: null, finishedAt });
+            });
         } finally {
-            reader.releaseLock();
-        }
-    }, []);
-    
-    const handleDisconnectDevice = useCallback(async () => {
-        if (readerRef.current) {
-            await readerRef.current.cancel();
-            readerRef.current = null;
-        }
-        if (portRef.current) {
-            await portRef.current.close();
-            portRef.current = null;
+            run.endedAt = Date.now();
+            run.result = control.aborted ? 'aborted' : run.steps.some(result => result.status === 'failed') ? 'failed' : 'passed';
+            sequenceControlRef.current = null;
+            setActiveSequence(null);
+            saveSequenceRuns(prevRuns => [run, ...prevRuns]);
         }
-        setSerialStatus({ text: 'Disconnected', type: 'idle' });
-    }, []);
-
-    const { processedScales, totalX, totalY } = useMemo(() => {
-        let x = 0;
-        let y = 0;
-        const processed = scales.map(s => {
-            const processedValue = (s.rawValue - s.tareValue) * s.calibrationSlope;
-            switch (s.category) {
-                case 'x': x += processedValue; break;
-                case '-x': x -= processedValue; break;
-                case 'y': y += processedValue; break;
-                case '-y': y -= processedValue; break;
-            }
-            return { ...s, processedValue };
-        });
-        return { processedScales: processed, totalX: x, totalY: y };
-    }, [scales]);
-    
-    useEffect(() => {
-        if (!isReadingData) return;
-        
-        const newLogEntry: LogEntry = {
-            totalX,
-            totalY,
-            processedValues: processedScales.map(s => s.processedValue),
-        };
+        return run;
+    };
 
-        const updatedLog = [...logRef.current, newLogEntry];
+    const handleAbortSequence = () => {
+        const control = sequenceControlRef.current;
+        if (!control) return;
+        control.aborted = true;
+        control.confirmPrompt?.();
+    };
 
-        if (updatedLog.length > logBufferSize) {
-           updatedLog.shift();
-        }
-        setLog(updatedLog);
+    const handleDeleteSequenceRun = (id: string) => {
+        saveSequenceRuns(prevRuns => prevRuns.filter(run => run.id !== id));
+    };
 
-    }, [totalX, totalY, processedScales, isReadingData, logBufferSize]);
+    const handleExportSequenceRun = (run: SequenceRun, format: 'json' | 'csv') => {
+        const filename = `test_report_${toFileSafeName(run.sequenceName)}_${toFileSafeName(new Date(run.startedAt).toISOString())}.${format}`;
+        if (format === 'json') downloadFile(filename, buildSequenceReportJson(run), 'application/json');
+        else downloadFile(filename, buildSequenceReportCsv(run), 'text/csv');
+    };
 
-    const stabilitySlopes = useMemo(() => {
-        const recentLog = log.slice(-20);
-        if (recentLog.length < 2) {
-            return {
-                scales: Array(8).fill(0),
-                totalX: 0,
-                totalY: 0,
-            };
+    const handleTareWindowChange = (seconds: number) => {
+        setTareWindowSeconds(seconds);
+        try {
+            localStorage.setItem(TARE_WINDOW_STORAGE_KEY, String(seconds));
+        } catch (error) {
+            console.error("Failed to save tare window to localStorage", error);
         }
-    
-        const scaleSlopes = Array.from({ length: 8 }, (_, scaleIndex) => {
-            const scaleData = recentLog.map(entry => entry.processedValues[scaleIndex] ?? 0);
-            return calculateTrendlineSlope(scaleData) * 100;
+    };
+
+    // Zero tracking waits until the statistics window holds only readings taken
+    // since the channel's last tare change, so one offset is never corrected twice.
+    useEffect(() => {
+        // A recorded session's statistics say nothing about the live channels.
+        if (!isReadingData || viewedSession || tareAverageRef.current) return;
+        const now = Date.now();
+        const settleMs = Math.max(statisticsSettings.windowSeconds * 1000, ZERO_TRACKING_INTERVAL_MS);
+        const corrections = new Map<number, number>();
+        scales.forEach((scale, index) => {
+            // Calibration points are tared with the scale's current tare, so it must hold still.
+            if (scale.id === calibratingScaleId) return;
+            const lastChange = scale.tareHistory[scale.tareHistory.length - 1];
+            if (!statistics.scales[index] || (lastChange && now - lastChange.timestamp < settleMs)) return;
+            const tare = getZeroTrackingTare(scale, statistics.scales[index]);
+            if (tare !== null) corrections.set(scale.id, tare);
         });
+        if (corrections.size === 0) return;
+        updateScalesAndSave(scale => corrections.has(scale.id) ? applyTare(scale, corrections.get(scale.id), 'zeroTracking', now) : scale);
+    }, [statistics]);
     
-        const totalXSlope = calculateTrendlineSlope(recentLog.map(entry => entry.totalX)) * 100;
-        const totalYSlope = calculateTrendlineSlope(recentLog.map(entry => entry.totalY)) * 100;
-    
-        return {
-            scales: scaleSlopes,
-            totalX: totalXSlope,
-            totalY: totalYSlope,
-        };
-    }, [log]);
+    const handleCategoryChange = useCallback((id: number, newCategory: Scale['category']) => {
+        setScales(prevScales => {
+            const updatedScales = prevScales.map(scale =>
+                scale.id === id ? { ...scale, category: newCategory } : scale
+            );
+            saveConfigToLocalStorage(updatedScales);
+            return updatedScales;
+        });
+    }, []);
 
-    const handleTareAll = useCallback(() => {
+    const handleGeometryChange = useCallback((id: number, patch: Partial<ScaleGeometry>) => {
         setScales(prevScales => {
-            const updatedScales = prevScales.map(scale => ({
-                ...scale,
-                tareValue: scale.rawValue,
-            }));
+            const updatedScales = prevScales.map(scale =>
+                scale.id === id ? { ...scale, geometry: { ...scale.geometry, ...patch } } : scale
+            );
             saveConfigToLocalStorage(updatedScales);
             return updatedScales;
         });
     }, []);
-    
-    const handleCategoryChange = useCallback((id: number, newCategory: Scale['category']) => {
+
+    const handleFiltersChange = useCallback((ids: number[], filters: FilterStage[]) => {
         setScales(prevScales => {
             const updatedScales = prevScales.map(scale =>
-                scale.id === id ? { ...scale, category: newCategory } : scale
+                ids.includes(scale.id) ? { ...scale, filters } : scale
+            );
+            saveConfigToLocalStorage(updatedScales);
+            return updatedScales;
+        });
+    }, []);
+
+    const handlePlateChange = (plate: PlateConfig) => {
+        setPlateConfig(plate);
+        // The totals are resolved in the force unit, so their limits are converted with it.
+        const factor = plate.forceUnit !== plateConfig.forceUnit ? getUnitFactor(plateConfig.forceUnit, plate.forceUnit) : null;
+        if (factor === null) {
+            updateActiveProfile({ plate });
+            return;
+        }
+        const alarms = { ...alarmSettings, totalX: scaleLimits(alarmSettings.totalX, factor), totalY: scaleLimits(alarmSettings.totalY, factor) };
+        setAlarmSettings(alarms);
+        updateActiveProfile({ plate, alarms });
+    };
+
+    /**
+     * Changes a scale's unit. Between force or mass units the user can have the
+     * calibration and limits converted, so readings keep their meaning;
+     * otherwise the unit is only relabelled.
+     */
+    const handleUnitChange = (id: number, unit: Unit) => {
+        const scale = scales.find(s => s.id === id);
+        if (!scale || scale.unit === unit) return;
+        const factor = getUnitFactor(scale.unit, unit);
+        const convert = factor !== null && window.confirm(
+            `Convert ${scale.name} from ${scale.unit} to ${unit}?\n\n`
+            + 'OK scales the calibration, alarm limits and zero tracking band so readings stay the same load. Cancel only changes the label.'
+        );
+        setScales(prevScales => {
+            const updatedScales = prevScales.map(s => {
+                if (s.id !== id) return s;
+                if (!convert) return { ...s, unit };
+                return {
+                    ...s,
+                    unit,
+                    calibration: scaleCalibration(s.calibration, factor),
+                    zeroTracking: { ...s.zeroTracking, band: s.zeroTracking.band * factor },
+                    limits: scaleLimits(s.limits, factor),
+                };
+            });
+            saveConfigToLocalStorage(updatedScales);
+            return updatedScales;
+        });
+    };
+
+    const handlePrecisionChange = useCallback((id: number, precision: number) => {
+        setScales(prevScales => {
+            const updatedScales = prevScales.map(scale =>
+                scale.id === id ? { ...scale, precision } : scale
             );
             saveConfigToLocalStorage(updatedScales);
             return updatedScales;
         });
     }, []);
 
-    const handleApplyCalibration = useCallback((id: number, newSlope: number) => {
+    const handleScaleLimitsChange = useCallback((id: number, patch: Partial<ScaleLimits>) => {
         setScales(prevScales => {
             const updatedScales = prevScales.map(scale =>
-                scale.id === id ? {...scale, calibrationSlope: newSlope} : scale
+                scale.id === id ? { ...scale, limits: { ...scale.limits, ...patch } } : scale
             );
             saveConfigToLocalStorage(updatedScales);
             return updatedScales;
         });
     }, []);
 
+    const handleAlarmSettingsChange = (alarms: AlarmSettings) => {
+        setAlarmSettings(alarms);
+        updateActiveProfile({ alarms });
+    };
+
+    const handleExportAlarmEvents = () => {
+        downloadFile(`alarm_events_${toFileSafeName(new Date().toISOString())}.csv`, buildAlarmEventsCsv(alarmEvents), 'text/csv');
+    };
+
+    /** Sets the markers, keeping the session being recorded in step. */
+    const updateMarkers = useCallback((update: (markers: LogMarker[]) => LogMarker[]) => {
+        const updated = update(markersRef.current);
+        markersRef.current = updated;
+        setMarkers(updated);
+        const recording = recordingRef.current;
+        if (recording) {
+            const recorded = update(recording.session.markers ?? []);
+            recording.session = { ...recording.session, markers: recorded };
+        }
+    }, []);
+
+    /**
+     * Marks the latest sample with a numbered label. Nothing is asked, so
+     * acquisition isn't held up; the marker can be renamed afterwards.
+     */
+    const handleAddMarker = useCallback(() => {
+        const latest = acquisition.readSince(acquisition.getSampleCount() - 1)[0];
+        const timestamp = latest?.timestamp ?? Date.now();
+        // Built once, so the live list and the recorded session get the same marker.
+        const marker = { id: crypto.randomUUID(), timestamp, label: `Marker ${markersRef.current.length + 1}` };
+        updateMarkers(prev => [...prev, marker]);
+    }, [acquisition, updateMarkers]);
+
+    const handleRenameMarker = (marker: LogMarker) => {
+        const label = window.prompt('New label for this marker:', marker.label)?.trim();
+        if (!label) return;
+        updateMarkers(prev => prev.map(existing => existing.id === marker.id ? { ...existing, label } : existing));
+    };
+
+    const handleClearMarkers = () => {
+        if (!window.confirm('Delete all markers?')) return;
+        updateMarkers(() => []);
+    };
+
+    // A viewed session shows the markers recorded with it.
+    const shownMarkers = viewedSession ? viewedSession.markers ?? [] : markers;
+    const canAddMarker = isReadingData && !viewedSession;
+    const recentLog = log.slice(-10);
+    const recentLogLines: (LogEntry | LogMarker)[] = [
+        ...(recentLog.length > 0
+            ? shownMarkers.filter(marker => marker.timestamp >= recentLog[0].timestamp && marker.timestamp <= recentLog[recentLog.length - 1].timestamp)
+            : []),
+        ...recentLog,
+    ].sort((a, b) => b.timestamp - a.timestamp);
+
+    useEffect(() => {
+        if (!canAddMarker) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key.toLowerCase() !== MARKER_SHORTCUT_KEY || e.ctrlKey || e.metaKey || e.altKey || e.repeat) return;
+            if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+            e.preventDefault();
+            handleAddMarker();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [canAddMarker, handleAddMarker]);
+
+    /**
+     * Makes a calibration current. The scale takes the unit it was made in,
+     * with its limits and zero tracking band converted where the units allow.
+     */
+    const handleApplyCalibration = useCallback((id: number, record: CalibrationRecord) => {
+        setScales(prevScales => {
+            const updatedScales = prevScales.map(scale => {
+                if (scale.id !== id) return scale;
+                const unit = record.unit ?? guessLegacyUnit(record.calibration);
+                const factor = unit !== scale.unit ? getUnitFactor(scale.unit, unit) : null;
+                const converted = factor === null ? {} : {
+                    limits: scaleLimits(scale.limits, factor),
+                    zeroTracking: { ...scale.zeroTracking, band: scale.zeroTracking.band * factor },
+                };
+                return { ...scale, ...converted, calibration: record.calibration, unit, calibrationHistory: [...scale.calibrationHistory, record] };
+            });
+            saveConfigToLocalStorage(updatedScales);
+            return updatedScales;
+        });
+    }, []);
+
+    /**
+     * Re-applies an earlier calibration. The rollback is itself appended to the
+     * history so the audit trail shows when and from what the change was made.
+     */
+    const handleRollBackCalibration = useCallback((id: number, record: CalibrationRecord) => {
+        handleApplyCalibration(id, {
+            ...record,
+            id: crypto.randomUUID(),
+            appliedAt: new Date().toISOString(),
+            note: `Rolled back to calibration of ${new Date(record.appliedAt).toLocaleString()}${record.note ? ` (${record.note})` : ''}`,
+        });
+    }, [handleApplyCalibration]);
+
+    /**
+     * Validates and applies the simulator script; a running simulation picks it up on its next tick.
+     * @returns An error message, or null if the script was applied.
+     */
+    const handleApplySimulatorConfig = (text: string): string | null => {
+        try {
+            const config = parseSimulatorConfig(text);
+            setSimulatorConfig(config);
+            setSimulatorConfigText(text);
+            localStorage.setItem(SIMULATOR_STORAGE_KEY, text);
+            return null;
+        } catch (error) {
+            return (error as Error).message;
+        }
+    };
+
+    const handleProtocolChange = useCallback((config: ProtocolConfig) => {
+        alignmentRef.current = { values: [], received: new Set() };
+        setProtocolConfig(config);
+        updateActiveProfile({ protocol: config });
+    }, []);
+
+    /**
+     * Persists the store and loads its active profile into the app. Buffered
+     * log entries belong to the previous setup, so they are dropped.
+     */
+    const activateProfileStore = (store: ProfileStore) => {
+        saveProfileStore(store);
+        const profile = getActiveProfile(store);
+        setScales(profileToScales(profile));
+        setProtocolConfig(profile.protocol);
+        setDeviceCommands(profile.commands);
+        setPlateConfig(profile.plate);
+        setAlarmSettings(profile.alarms);
+        setActiveProfileName(profile.name);
+        setProfileNames(store.profiles.map(p => p.name));
+        clearLog();
+        setLineStats(EMPTY_LINE_STATS);
+        setCalibratingScaleId(null);
+        setHistoryScaleId(null);
+        setProfileError(null);
+    };
+
+    const promptProfileName = (message: string, initialName: string, existingNames: string[]): string | null => {
+        const name = window.prompt(message, initialName)?.trim();
+        if (!name) return null;
+        if (existingNames.includes(name)) {
+            alert(`A profile named "${name}" already exists.`);
+            return null;
+        }
+        return name;
+    };
+
+    const handleSwitchProfile = (name: string) => {
+        activateProfileStore({ ...loadProfileStore(), activeProfileName: name });
+    };
+
+    const handleSaveProfileAs = () => {
+        const store = loadProfileStore();
+        const name = promptProfileName('Name for the new profile:', `${activeProfileName} copy`, store.profiles.map(p => p.name));
+        if (!name) return;
+        activateProfileStore({
+            activeProfileName: name,
+            profiles: [...store.profiles, { name, scales: scales.map(toScaleConfig), protocol: protocolConfig, commands: deviceCommands, plate: plateConfig, alarms: alarmSettings }],
+        });
+    };
+
+    const handleRenameProfile = () => {
+        const store = loadProfileStore();
+        const name = promptProfileName('New name for this profile:', activeProfileName, store.profiles.map(p => p.name));
+        if (!name) return;
+        const updatedStore = {
+            activeProfileName: name,
+            profiles: store.profiles.map(p => p.name === store.activeProfileName ? { ...p, name } : p),
+        };
+        saveProfileStore(updatedStore);
+        setActiveProfileName(name);
+        setProfileNames(updatedStore.profiles.map(p => p.name));
+    };
+
+    const handleDeleteProfile = () => {
+        const store = loadProfileStore();
+        if (store.profiles.length <= 1 || !window.confirm(`Delete the profile "${activeProfileName}"? This cannot be undone.`)) return;
+        const profiles = store.profiles.filter(p => p.name !== store.activeProfileName);
+        activateProfileStore({ activeProfileName: profiles[0].name, profiles });
+    };
+
+    const handleExportProfile = () => {
+        const profile = getActiveProfile(loadProfileStore());
+        const content = JSON.stringify(buildProfileFile(profile), null, 2);
+        downloadFile(`${toFileSafeName(profile.name)}.loadcell-profile.json`, content, 'application/json');
+    };
+
+    const handleImportProfile = async (file: File) => {
+        try {
+            const store = loadProfileStore();
+            const imported = parseProfileFile(await file.text(), file.name.replace(/\.[^.]*$/, ''));
+            const name = getUniqueProfileName(imported.name, store.profiles.map(p => p.name));
+            activateProfileStore({ activeProfileName: name, profiles: [...store.profiles, { ...imported, name }] });
+        } catch (error) {
+            setProfileError(`Could not import "${file.name}": ${(error as Error).message}`);
+        }
+    };
+
+    /**
+     * Log entries store values by scale position, so changing the scale count
+     * invalidates the buffered log. Asks before discarding a non-empty log.
+     */
+    const confirmScaleCountChange = (): boolean => {
+        if (recordingRef.current) {
+            alert('Stop the recording before changing the number of scales.');
+            return false;
+        }
+        if (logRef.current.length > 0 && !window.confirm('Changing the number of scales clears the data log. Continue?')) {
+            return false;
+        }
+        clearLog();
+        return true;
+    };
+
+    const handleAddScale = () => {
+        if (scales.length >= MAX_SCALE_COUNT || !confirmScaleCountChange()) return;
+        setScales(prevScales => {
+            const nextId = Math.max(0, ...prevScales.map(s => s.id)) + 1;
+            const updatedScales = [...prevScales, createScale(nextId)];
+            saveConfigToLocalStorage(updatedScales);
+            return updatedScales;
+        });
+        handleProtocolChange({
+            ...protocolConfig,
+            columnMap: resizeColumnMap(protocolConfig.columnMap, scales.length + 1),
+            deviceMap: resizeDeviceMap(protocolConfig.deviceMap, scales.length + 1),
+        });
+    };
+
+    const handleRemoveScale = (id: number) => {
+        const index = scales.findIndex(s => s.id === id);
+        if (index < 0 || scales.length <= 1 || !confirmScaleCountChange()) return;
+        setScales(prevScales => {
+            const updatedScales = prevScales.filter(s => s.id !== id);
+            saveConfigToLocalStorage(updatedScales);
+            return updatedScales;
+        });
+        handleProtocolChange({
+            ...protocolConfig,
+            columnMap: protocolConfig.columnMap.filter((_, i) => i !== index),
+            deviceMap: protocolConfig.deviceMap.filter((_, i) => i !== index),
+        });
+    };
+
     const handleCopyToClipboard = async () => {
         if (log.length === 0) {
             alert("No data to copy.");
@@ -496,8 +6192,8 @@ const App = () => {
         const scaleHeaders = scales.map(s => s.name.replace(/ /g, "_")).join('\t');
         const header = `X_Total\tY_Total\t${scaleHeaders}\n`;
         const rows = log.map(entry => {
-            const scaleValues = entry.processedValues.map(formatNumber).join('\t');
-            return `${formatNumber(entry.totalX)}\t${formatNumber(entry.totalY)}\t${scaleValues}`;
+            const scaleValues = entry.processedValues.map((value, i) => formatNumber(value, scales[i]?.precision)).join('\t');
+            return `${formatNumber(entry.totalX, plateConfig.forcePrecision)}\t${formatNumber(entry.totalY, plateConfig.forcePrecision)}\t${scaleValues}`;
         }).join('\n');
         
         const excelContent = header + rows;
@@ -516,67 +6212,204 @@ const App = () => {
         scales.find(s => s.id === calibratingScaleId) || null
     , [scales, calibratingScaleId]);
 
+    const calibrationSamples = useMemo(() => {
+        const index = scales.findIndex(s => s.id === calibratingScaleId);
+        return index < 0 ? [] : sampleBatch.map(entry => entry.rawValues[index]);
+        // Only new batches carry new samples; scale edits don't.
+    }, [sampleBatch, calibratingScaleId]);
+
+    const historyScale = useMemo(() =>
+        scales.find(s => s.id === historyScaleId) || null
+    , [scales, historyScaleId]);
+
     return (
         <div className="app-container">
             <h1>Loadcell Data Analyzer</h1>
             
             <div className="main-controls">
-                <button onClick={() => setIsSimulating(s => !s)} disabled={serialStatus.type === 'connected'}>
+                <button onClick={() => setIsSimulating(s => !s)} disabled={isSerialActive || isReplaying}>
                     {isSimulating ? 'Stop Simulation' : 'Start Simulation'}
                 </button>
-                <button onClick={serialStatus.type === 'connected' ? handleDisconnectDevice : handleConnectDevice} disabled={isSimulating}>
-                    {serialStatus.type === 'connected' ? 'Disconnect Device' : 'Connect to Device'}
-                </button>
+                {protocolConfig.devices.length === 1 ? (
+                    <>
+                        <button onClick={() => isSerialActive ? handleDisconnectDevice(0) : handleConnectDevice(0)} disabled={isSimulating || isReplaying || serialStatus.type === 'connecting'}>
+                            {isSerialActive ? 'Disconnect Device' : 'Connect to Device'}
+                        </button>
+                        {!isSerialActive && (
+                            <button onClick={() => handleConnectNetwork(0)} disabled={isSimulating || isReplaying || serialStatus.type === 'connecting'}>
+                                Connect Network...
+                            </button>
+                        )}
+                    </>
+                ) : (
+                    <button onClick={handleDisconnectAll} disabled={!isSerialActive}>Disconnect All</button>
+                )}
+                <button onClick={() => setIsSerialSettingsOpen(true)}>Port Settings</button>
                 <div className={`serial-status ${serialStatus.type}`}>{serialStatus.text}</div>
-                <button onClick={handleTareAll} disabled={!isReadingData}>Tare All</button>
+                {protocolConfig.devices.length > 1 && (
+                    <div className="device-statuses">
+                        {protocolConfig.devices.map((name, device) => {
+                            const status = deviceStatuses[device] ?? { text: 'Disconnected', type: 'idle' };
+                            const isActive = status.type === 'connected' || status.type === 'reconnecting';
+                            return (
+                                <div key={device} className={`serial-status ${status.type}`} title={status.text}>
+                                    {name}: {status.text}
+                                    <button
+                                        onClick={() => isActive ? handleDisconnectDevice(device) : handleConnectDevice(device)}
+                                        disabled={isSimulating || isReplaying || status.type === 'connecting'}
+                                    >
+                                        {isActive ? 'Disconnect' : 'Connect'}
+                                    </button>
+                                    {!isActive && (
+                                        <button
+                                            onClick={() => handleConnectNetwork(device)}
+                                            disabled={isSimulating || isReplaying || status.type === 'connecting'}
+                                        >
+                                            Network
+                                        </button>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+                {(isSerialActive || isSimulating) && (
+                    <div className="link-stats">
+                        <span>Rx {formatBytes(linkStats.bytesReceived)}</span>
+                        <span>{linkStats.linesPerSecond.toFixed(1)} lines/s</span>
+                        <span className={lineStats.rejected > 0 ? 'error' : ''}>{lineStats.rejected} parse errors</span>
+                        <span>
+                            Last line {linkStats.lastValidLineAt === null ? 'never' : `${Math.max(0, (linkStats.updatedAt - linkStats.lastValidLineAt) / 1000).toFixed(1)}s ago`}
+                        </span>
+                    </div>
+                )}
+                <button onClick={() => handleTare(scales.map(scale => scale.id))} disabled={!isReadingData || taringIds.length > 0}>
+                    {taringIds.length > 0 ? 'Taring...' : 'Tare All'}
+                </button>
+                <button
+                    className={recordingSession ? 'recording' : ''}
+                    onClick={recordingSession ? handleStopRecording : handleStartRecording}
+                    disabled={!isReadingData && !recordingSession}
+                >
+                    {recordingSession ? 'Stop Recording' : 'Record'}
+                </button>
+                {recordingSession && (
+                    <div className="recording-status">
+                        ● REC {recordingSession.sampleCount} samples
+                    </div>
+                )}
             </div>
 
+            <ProfilePanel
+                activeProfileName={activeProfileName}
+                profileNames={profileNames}
+                error={profileError}
+                onSwitch={handleSwitchProfile}
+                onSaveAs={handleSaveProfileAs}
+                onRename={handleRenameProfile}
+                onDelete={handleDeleteProfile}
+                onExport={handleExportProfile}
+                onImport={handleImportProfile}
+                onDismissError={() => setProfileError(null)}
+                disabled={!!recordingSession}
+            />
+
+            {viewedSession && (
+                <div className="session-banner">
+                    <span>Viewing recorded session <strong>{viewedSession.name}</strong> ({log.length} samples)</span>
+                    <button onClick={handleCloseSession}>Close Session</button>
+                </div>
+            )}
+
             <div className="totals-display">
-                <div className="total-card">
+                <div className={`total-card${activeAlarms.totalX ? ' alarm' : ''}`} title={alarmTitle('totalX')}>
                     <h2>X-Direction Total</h2>
-                    <p className="value">{formatNumber(totalX)}</p>
-                    <p className="stability-slope">Slope: {formatNumber(stabilitySlopes.totalX)}</p>
+                    <p className="value">{formatQuantity(totalX, plateConfig.forceUnit, plateConfig.forcePrecision)}</p>
+                    <p className="stability-slope">
+                        <StabilityBadge stats={statistics.totalX} /> Slope: {formatNumber(statistics.totalX.slopePerSecond, plateConfig.forcePrecision)} {plateConfig.forceUnit}/s
+                    </p>
                 </div>
-                <div className="total-card">
+                <div className={`total-card${activeAlarms.totalY ? ' alarm' : ''}`} title={alarmTitle('totalY')}>
                     <h2>Y-Direction Total</h2>
-                    <p className="value">{formatNumber(totalY)}</p>
-                    <p className="stability-slope">Slope: {formatNumber(stabilitySlopes.totalY)}</p>
+                    <p className="value">{formatQuantity(totalY, plateConfig.forceUnit, plateConfig.forcePrecision)}</p>
+                    <p className="stability-slope">
+                        <StabilityBadge stats={statistics.totalY} /> Slope: {formatNumber(statistics.totalY.slopePerSecond, plateConfig.forcePrecision)} {plateConfig.forceUnit}/s
+                    </p>
+                </div>
+                <div className="total-card">
+                    <h2>Resultant</h2>
+                    <p className="value">{formatQuantity(resultant.magnitude, plateConfig.forceUnit, plateConfig.forcePrecision)}</p>
+                    <p className="stability-slope">Angle: {resultant.angle.toFixed(1)}&deg;</p>
+                </div>
+                <div className="total-card">
+                    <h2>Moment about Reference</h2>
+                    <p className="value">{formatNumber(resultant.moment, plateConfig.forcePrecision)} {plateConfig.forceUnit}&middot;{plateConfig.positionUnit}</p>
+                    <p className="stability-slope">at ({formatNumber(plateConfig.referenceX)}, {formatNumber(plateConfig.referenceY)}) {plateConfig.positionUnit}</p>
                 </div>
+                {scales.some(scale => scale.category === 'z') && (
+                    <div className="total-card">
+                        <h2>Center of Pressure</h2>
+                        <p className="value">
+                            {resultant.centerOfPressure
+                                ? `${formatNumber(resultant.centerOfPressure.x)}, ${formatNumber(resultant.centerOfPressure.y)}`
+                                : '—'}
+                        </p>
+                        <p className="stability-slope">Fz: {formatQuantity(resultant.fz, plateConfig.forceUnit, plateConfig.forcePrecision)}</p>
+                    </div>
+                )}
             </div>
 
+            <PlateView scales={processedScales} resultant={resultant} plate={plateConfig} log={log} />
+
             <div className="charts-display">
-                <DataChart 
-                    title="X Total History"
-                    data={log.map(e => e.totalX)}
-                    color="var(--primary-color)"
-                />
-                <DataChart 
-                    title="Y Total History"
-                    data={log.map(e => e.totalY)}
-                    color="var(--secondary-color)"
-                />
+                <DataChart title="X Total History" entries={log} scales={scales} plate={plateConfig} markers={shownMarkers} defaultSeries={['totalX']} />
+                <DataChart title="Y Total History" entries={log} scales={scales} plate={plateConfig} markers={shownMarkers} defaultSeries={['totalY']} />
             </div>
 
             <div className="scales-section">
-                <h2>Individual Scales</h2>
+                <div className="section-header">
+                    <h2>Individual Scales ({scales.length})</h2>
+                    <button onClick={handleAddScale} disabled={scales.length >= MAX_SCALE_COUNT}>Add Scale</button>
+                </div>
                 <table className="scales-table">
                     <thead>
                         <tr>
                             <th>Scale</th>
                             <th>Raw Value</th>
                             <th>Processed Value</th>
+                            {hasFilters && <th>Unfiltered</th>}
                             <th>Stability (Slope)</th>
+                            <th>Unit</th>
                             <th>Category</th>
                             <th>Actions</th>
                         </tr>
                     </thead>
                     <tbody>
                         {processedScales.map((scale, index) => (
-                            <tr key={scale.id}>
+                            <tr key={scale.id} className={activeAlarms[`scale-${scale.id}`] ? 'alarm' : ''} title={alarmTitle(`scale-${scale.id}`)}>
                                 <td>{scale.name}</td>
                                 <td>{formatNumber(scale.rawValue)}</td>
-                                <td>{formatNumber(scale.processedValue)}</td>
-                                <td className="stability-slope-cell">{formatNumber(stabilitySlopes.scales[index])}</td>
+                                <td title={scale.filters.map(describeFilterStage).join(' \u2192 ')}>{formatQuantity(scale.processedValue, scale.unit, scale.precision)}</td>
+                                {hasFilters && <td>{scale.filters.length > 0 ? formatQuantity(scale.unfilteredValue, scale.unit, scale.precision) : '—'}</td>}
+                                <td className="stability-slope-cell">
+                                    <StabilityBadge stats={statistics.scales[index]} /> {formatNumber(statistics.scales[index].slopePerSecond, scale.precision)} {scale.unit}/s
+                                </td>
+                                <td>
+                                    <div className="unit-controls">
+                                        <select value={scale.unit} onChange={(e) => handleUnitChange(scale.id, e.target.value as Unit)} aria-label={`${scale.name} unit`}>
+                                            {Object.entries(UNITS).map(([key, { label }]) => <option key={key} value={key}>{label}</option>)}
+                                        </select>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={MAX_PRECISION}
+                                            value={scale.precision}
+                                            onChange={(e) => handlePrecisionChange(scale.id, Math.min(MAX_PRECISION, Math.max(0, parseInt(e.target.value) || 0)))}
+                                            title="Decimal places"
+                                            aria-label={`${scale.name} decimal places`}
+                                        />
+                                    </div>
+                                </td>
                                 <td>
                                     <select 
                                         value={scale.category} 
@@ -587,10 +6420,16 @@ const App = () => {
                                         <option value="-x">-X</option>
                                         <option value="y">Y</option>
                                         <option value="-y">-Y</option>
+                                        <option value="vector">Angle</option>
+                                        <option value="z">Normal (Z)</option>
                                     </select>
                                 </td>
                                 <td>
-                                    <button onClick={() => setCalibratingScaleId(scale.id)} disabled={!isReadingData}>Calibrate</button>
+                                    <div className="row-actions">
+                                        <button onClick={() => setCalibratingScaleId(scale.id)} disabled={!isReadingData}>Calibrate</button>
+                                        <button onClick={() => setHistoryScaleId(scale.id)}>History ({scale.calibrationHistory.length})</button>
+                                        <button className="danger" onClick={() => handleRemoveScale(scale.id)} disabled={scales.length <= 1}>Remove</button>
+                                    </div>
                                 </td>
                             </tr>
                         ))}
@@ -598,6 +6437,92 @@ const App = () => {
                 </table>
             </div>
             
+            <TarePanel
+                scales={scales}
+                windowSeconds={tareWindowSeconds}
+                taringIds={taringIds}
+                canTare={isReadingData}
+                onWindowChange={handleTareWindowChange}
+                onTare={handleTare}
+                onSetTare={handleSetTare}
+                onUndo={handleUndoTare}
+                onZeroTrackingChange={handleZeroTrackingChange}
+            />
+
+            <SequencePanel
+                sequences={sequences}
+                runs={sequenceRuns}
+                active={activeSequence}
+                canRun={isReadingData}
+                onSave={handleSaveSequence}
+                onDelete={handleDeleteSequence}
+                onRun={runSequence}
+                onConfirmPrompt={() => sequenceControlRef.current?.confirmPrompt?.()}
+                onAbort={handleAbortSequence}
+                onExportRun={handleExportSequenceRun}
+                onDeleteRun={handleDeleteSequenceRun}
+            />
+
+            <MarkerPanel
+                markers={shownMarkers}
+                log={log}
+                scales={scales}
+                plate={plateConfig}
+                settings={statisticsSettings}
+                canAdd={canAddMarker}
+                editable={!viewedSession}
+                onAdd={handleAddMarker}
+                onRename={handleRenameMarker}
+                onDelete={(id) => updateMarkers(prev => prev.filter(marker => marker.id !== id))}
+                onClear={handleClearMarkers}
+            />
+
+            <StatisticsPanel
+                statistics={statistics}
+                scales={scales}
+                plate={plateConfig}
+                settings={statisticsSettings}
+                baseline={viewedSession ? null : driftBaseline}
+                isCapturingBaseline={isCapturingBaseline}
+                canCaptureBaseline={isReadingData && !viewedSession}
+                onSettingsChange={handleStatisticsSettingsChange}
+                onCaptureBaseline={startDriftBaseline}
+            />
+
+            <AlarmPanel
+                scales={scales}
+                plate={plateConfig}
+                settings={alarmSettings}
+                activeAlarms={activeAlarms}
+                events={alarmEvents}
+                onScaleLimitsChange={handleScaleLimitsChange}
+                onSettingsChange={handleAlarmSettingsChange}
+                onExportEvents={handleExportAlarmEvents}
+                onClearEvents={() => setAlarmEvents([])}
+            />
+
+            <FilterPanel
+                scales={scales}
+                sampleRateHz={acquisition.getSampleRateHz()}
+                onChange={handleFiltersChange}
+            />
+
+            <GeometryPanel
+                scales={scales}
+                plate={plateConfig}
+                onScaleChange={handleGeometryChange}
+                onPlateChange={handlePlateChange}
+            />
+
+            <ProtocolPanel
+                config={protocolConfig}
+                scales={scales}
+                isSerialActive={isSerialActive}
+                stats={lineStats}
+                onChange={handleProtocolChange}
+                onResetStats={() => setLineStats(EMPTY_LINE_STATS)}
+            />
+
             <div className="logging-section">
                 <h2>Data Logging</h2>
                  <div className="logging-controls">
@@ -609,22 +6534,92 @@ const App = () => {
                         onChange={e => setLogBufferSize(parseInt(e.target.value) || 100)}
                     />
                     <button onClick={handleCopyToClipboard} disabled={log.length === 0}>{copyButtonText}</button>
+                    <button onClick={handleExportLog} disabled={log.length === 0}>Export File...</button>
                 </div>
                 <div className="log-display" aria-live="polite">
-                    {log.slice(-10).reverse().map((entry, index) => (
-                        <div key={log.length - index}>X: {formatNumber(entry.totalX)}, Y: {formatNumber(entry.totalY)}</div>
+                    {recentLogLines.map((line, i) => 'label' in line ? (
+                        <div key={line.id} className="log-marker">{new Date(line.timestamp).toLocaleTimeString()} Marker: {line.label}</div>
+                    ) : (
+                        <div key={`sample-${i}`}>{new Date(line.timestamp).toLocaleTimeString()} X: {formatQuantity(line.totalX, plateConfig.forceUnit, plateConfig.forcePrecision)}, Y: {formatQuantity(line.totalY, plateConfig.forceUnit, plateConfig.forcePrecision)}</div>
                     ))}
                     {log.length > 10 && <div>...and {log.length-10} more entries</div>}
                 </div>
             </div>
 
+            <DeviceConsole
+                config={deviceCommands}
+                entries={consoleEntries}
+                devices={protocolConfig.devices}
+                connectedDevices={protocolConfig.devices.map((_, i) => deviceStatuses[i]?.type === 'connected')}
+                onRunCommand={handleRunCommand}
+                onSendRaw={(text, responsePattern, device) => sendCommand(text, responsePattern, DEFAULT_COMMAND_TIMEOUT_MS, device)}
+                onConfigChange={handleDeviceCommandsChange}
+                onClear={() => setConsoleEntries([])}
+            />
+
+            <SimulatorPanel
+                configText={simulatorConfigText}
+                onApply={handleApplySimulatorConfig}
+            />
+
+            <ReplayPanel
+                status={replayStatus}
+                canLoad={!isSimulating && !isSerialActive && !recordingSession}
+                onLoadFile={handleLoadReplayFile}
+                onPlayPause={handleToggleReplay}
+                onSeek={handleSeekReplay}
+                onSpeedChange={(speed) => setReplayStatus(status => status && { ...status, speed })}
+                onLoopChange={(loop) => setReplayStatus(status => status && { ...status, loop })}
+                onApplyRecordedConfig={handleApplyRecordedConfig}
+                onClose={handleCloseReplay}
+            />
+
+            <SessionBrowser
+                sessions={sessions}
+                activeSessionId={recordingSession?.id ?? null}
+                viewedSessionId={viewedSession?.id ?? null}
+                canOpen={!isReadingData}
+                onOpen={handleOpenSession}
+                onRename={handleRenameSession}
+                onDelete={handleDeleteSession}
+                onExport={handleExportSession}
+                onReplay={handleReplaySession}
+            />
+
+            {exportSource && (
+                <ExportModal
+                    source={exportSource}
+                    options={exportOptions}
+                    onOptionsChange={setExportOptions}
+                    onClose={() => setExportSource(null)}
+                />
+            )}
+
+            {isSerialSettingsOpen && (
+                <SerialSettingsModal
+                    settings={serialSettings}
+                    isConnected={isSerialActive}
+                    onSave={handleSaveSerialSettings}
+                    onClose={() => setIsSerialSettingsOpen(false)}
+                />
+            )}
+
             {calibratingScale && (
                 <CalibrationModal 
                     scale={calibratingScale}
+                    samples={calibrationSamples}
                     onClose={() => setCalibratingScaleId(null)}
                     onApply={handleApplyCalibration}
                 />
             )}
+
+            {historyScale && (
+                <CalibrationHistoryModal
+                    scale={historyScale}
+                    onClose={() => setHistoryScaleId(null)}
+                    onRollBack={handleRollBackCalibration}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,88 @@
+import type { Scale, Unit, PlateConfig, ForceResultant, LogEntry } from './types';
+import { CATEGORY_ANGLES, DEFAULT_PLATE_CONFIG, UNITS } from './constants';
+import { evaluateCalibration } from './calibration';
+
+/** Normal totals smaller than this leave the center of pressure undefined. */
+const MIN_COP_FORCE = 1e-6;
+
+/**
+ * Factor converting a value in one unit to another, or null if the units
+ * can't be converted (an electrical unit to anything else).
+ */
+export const getUnitFactor = (from: Unit, to: Unit): number | null => {
+    if (from === to) return 1;
+    const fromNewtons = UNITS[from].newtons;
+    const toNewtons = UNITS[to].newtons;
+    // Rounded so exact ratios such as g to kg stay exact (9.80665 / 0.00980665 isn't quite 1000).
+    return fromNewtons !== null && toNewtons !== null ? Number((fromNewtons / toNewtons).toPrecision(12)) : null;
+};
+
+/** Force direction of an in-plane cell in degrees, or null for normal and unused cells. */
+export const getForceAngle = (scale: Pick<Scale, 'category' | 'geometry'>): number | null =>
+    scale.category === 'vector' ? scale.geometry.angle : CATEGORY_ANGLES[scale.category] ?? null;
+
+/**
+ * Resolves processed cell values into the plate resultant using each cell's
+ * category and geometry. With unit weights and axis categories, Fx and Fy are
+ * the plain signed X/Y sums. Values are converted into the plate's force unit;
+ * cells in a unit that can't be converted contribute their value unchanged.
+ */
+export const resolveForces = (values: number[], scales: Pick<Scale, 'category' | 'geometry' | 'unit'>[], plate: PlateConfig): ForceResultant => {
+    const resultant: ForceResultant = { fx: 0, fy: 0, magnitude: 0, angle: 0, moment: 0, fz: 0, centerOfPressure: null };
+    let copX = 0;
+    let copY = 0;
+    scales.forEach((s, i) => {
+        const force = (values[i] ?? 0) * s.geometry.weight * (getUnitFactor(s.unit, plate.forceUnit) ?? 1);
+        const angle = getForceAngle(s);
+        if (angle !== null) {
+            const radians = angle * Math.PI / 180;
+            const fx = force * Math.cos(radians);
+            const fy = force * Math.sin(radians);
+            resultant.fx += fx;
+            resultant.fy += fy;
+            resultant.moment += (s.geometry.x - plate.referenceX) * fy - (s.geometry.y - plate.referenceY) * fx;
+        } else if (s.category === 'z') {
+            resultant.fz += force;
+            copX += force * s.geometry.x;
+            copY += force * s.geometry.y;
+        }
+    });
+
+    // Axis directions leave rounding noise like 6e-17 in the other component.
+    const clean = (value: number) => Math.abs(value) < 1e-12 ? 0 : value;
+    resultant.fx = clean(resultant.fx);
+    resultant.fy = clean(resultant.fy);
+    resultant.magnitude = Math.hypot(resultant.fx, resultant.fy);
+    resultant.angle = Math.atan2(resultant.fy, resultant.fx) * 180 / Math.PI;
+    if (Math.abs(resultant.fz) >= MIN_COP_FORCE) {
+        resultant.centerOfPressure = { x: copX / resultant.fz, y: copY / resultant.fz };
+    }
+    return resultant;
+};
+
+/**
+ * Applies tare and calibration to each scale and resolves the plate resultant.
+ * The processed value uses the filtered reading; `unfilteredValue` is the
+ * same calculation on the raw reading.
+ */
+export const processScales = (scales: Scale[], plate: PlateConfig = DEFAULT_PLATE_CONFIG) => {
+    const processed = scales.map(s => ({
+        ...s,
+        processedValue: evaluateCalibration(s.calibration, s.filteredValue - s.tareValue),
+        unfilteredValue: evaluateCalibration(s.calibration, s.rawValue - s.tareValue),
+    }));
+    const resultant = resolveForces(processed.map(s => s.processedValue), scales, plate);
+    return { processedScales: processed, totalX: resultant.fx, totalY: resultant.fy, resultant };
+};
+
+export const createLogEntry = (timestamp: number, scales: Scale[], plate: PlateConfig): LogEntry => {
+    const { processedScales, totalX, totalY } = processScales(scales, plate);
+    return {
+        timestamp,
+        totalX,
+        totalY,
+        processedValues: processedScales.map(s => s.processedValue),
+        rawValues: scales.map(s => s.rawValue),
+        unfilteredValues: processedScales.map(s => s.unfilteredValue),
+    };
+};
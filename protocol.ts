@@ -0,0 +1,87 @@
+import type { LineFormat, ProtocolConfig, ParseResult } from './types';
+
+/**
+ * Parses a numeric token strictly; unlike parseFloat, "12abc" is rejected.
+ */
+export const parseNumber = (text: string): number => {
+    const trimmed = text.trim();
+    return trimmed === '' ? NaN : Number(trimmed);
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Flattens a parsed JSON value into dot-separated field paths. Array items are
+ * keyed by their 1-based position so they can be mapped like delimited columns.
+ */
+const flattenJsonFields = (value: unknown, prefix: string, fields: Record<string, number>) => {
+    if (Array.isArray(value)) {
+        value.forEach((item, i) => flattenJsonFields(item, prefix ? `${prefix}.${i + 1}` : String(i + 1), fields));
+    } else if (value !== null && typeof value === 'object') {
+        Object.entries(value).forEach(([key, item]) => flattenJsonFields(item, prefix ? `${prefix}.${key}` : key, fields));
+    } else if (typeof value === 'number') {
+        fields[prefix] = value;
+    } else if (typeof value === 'string') {
+        fields[prefix] = parseNumber(value);
+    }
+};
+
+/**
+ * Field extractors for each supported line format. Each turns a raw line into
+ * a map of field key -> value; the column map then picks one field per scale.
+ * Non-numeric fields are kept as NaN so the rejection reason can name them.
+ */
+export const LINE_PARSERS: Record<LineFormat, (line: string, config: ProtocolConfig) => Record<string, number>> = {
+    delimited: (line, config) => {
+        const tokens = config.delimiter === ' ' ? line.split(/\s+/) : line.split(config.delimiter);
+        const fields: Record<string, number> = {};
+        tokens.forEach((token, i) => { fields[String(i + 1)] = parseNumber(token); });
+        return fields;
+    },
+    keyValue: (line, config) => {
+        const separator = escapeRegExp(config.keyValueSeparator);
+        const pattern = new RegExp(`([^\\s,;${separator}]+)\\s*${separator}\\s*([^\\s,;]+)`, 'g');
+        const fields: Record<string, number> = {};
+        for (const [, key, value] of line.matchAll(pattern)) {
+            fields[key] = parseNumber(value);
+        }
+        return fields;
+    },
+    json: (line) => {
+        const fields: Record<string, number> = {};
+        flattenJsonFields(JSON.parse(line), '', fields);
+        return fields;
+    },
+};
+
+/**
+ * Parses one line from a device into one value per scale. Scales mapped to
+ * other devices are NaN, so ingesting the values leaves them unchanged.
+ * @returns { values } when every field of the device is present and numeric, otherwise { error }.
+ */
+export const parseLine = (line: string, config: ProtocolConfig, device: number = 0): ParseResult => {
+    let fields: Record<string, number>;
+    try {
+        fields = LINE_PARSERS[config.format](line, config);
+    } catch (error) {
+        return { error: `Malformed line: ${(error as Error).message}` };
+    }
+
+    const values: number[] = [];
+    for (const [index, rawKey] of config.columnMap.entries()) {
+        if (config.deviceMap[index] !== device) {
+            values.push(NaN);
+            continue;
+        }
+        const key = rawKey.trim();
+        const value = fields[key];
+        if (value === undefined) {
+            return { error: `Missing field "${key}" for scale ${index + 1}` };
+        }
+        if (isNaN(value)) {
+            return { error: `Non-numeric value in field "${key}"` };
+        }
+        values.push(value);
+    }
+    return { values };
+};
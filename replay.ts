@@ -0,0 +1,213 @@
+import type { LogEntry, RecordingSession, ProtocolConfig, ScaleConfig, ReplaySample, ReplayData } from './types';
+import { DEFAULT_CAPTURE_RATE_HZ } from './constants';
+import { parseNumber, parseLine } from './protocol';
+import { isPlainObject, isFiniteNumber, parseScaleConfig } from './validation';
+
+/**
+ * Splits one row of delimited text, honouring double-quoted fields.
+ */
+const splitDelimitedRow = (line: string, separator: string): string[] => {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === separator) {
+            fields.push(field);
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    fields.push(field);
+    return fields;
+};
+
+const PROCESSED_ONLY_WARNING = 'The file has no raw value columns. Processed values are replayed as raw values, so reset tare and calibration to see them unchanged.';
+
+/**
+ * Validates the scale configuration a replay file was recorded with, the same
+ * way a profile import does. A configuration with any invalid scale is
+ * dropped with a warning, since applying part of it would misalign the scales.
+ */
+const parseReplayScaleConfig = (scales: unknown[], warnings: string[]): ScaleConfig[] | null => {
+    const errors: string[] = [];
+    const parsed = scales.map((scale, i) => parseScaleConfig(scale, `scales[${i}]`, errors));
+    if (errors.length > 0) {
+        warnings.push(`The recorded scale configuration was ignored because it is invalid: ${errors.join('; ')}`);
+        return null;
+    }
+    return parsed;
+};
+
+/**
+ * Reads a JSON Lines file written by the log export. Values are keyed by
+ * scale id; files from before that are keyed by scale name.
+ */
+const parseExportedJsonl = (lines: string[], name: string): ReplayData => {
+    const warnings: string[] = [];
+    let scaleConfig: ScaleConfig[] | null = null;
+    let scaleKeys: string[] | null = null;
+    let startedAt: number | null = null;
+    const samples: ReplaySample[] = [];
+
+    lines.forEach((line, lineIndex) => {
+        const row = JSON.parse(line);
+        if (row.metadata) {
+            scaleConfig = Array.isArray(row.metadata.scales) ? parseReplayScaleConfig(row.metadata.scales, warnings) : null;
+            return;
+        }
+        const values = row.raw ?? row.processed;
+        if (!isPlainObject(values)) {
+            throw new Error(`Line ${lineIndex + 1} has no raw or processed values.`);
+        }
+        if (!row.raw && warnings.length === 0) warnings.push(PROCESSED_ONLY_WARNING);
+        scaleKeys ??= scaleConfig
+            ? scaleConfig.map(scale => Object.hasOwn(values, String(scale.id)) ? String(scale.id) : scale.name)
+            : Object.keys(values);
+
+        const timestamp = row.timestamp ? Date.parse(row.timestamp) : NaN;
+        if (startedAt === null) startedAt = isNaN(timestamp) ? Date.now() : timestamp;
+        const time = isFiniteNumber(row.elapsed) ? row.elapsed * 1000
+            : !isNaN(timestamp) ? timestamp - startedAt
+            : samples.length * (1000 / DEFAULT_CAPTURE_RATE_HZ);
+        samples.push({ time, rawValues: scaleKeys.map(key => isFiniteNumber(values[key]) ? values[key] : NaN) });
+    });
+
+    return { name, startedAt: startedAt ?? Date.now(), samples, scaleConfig, warnings };
+};
+
+/**
+ * Reads a CSV or TSV file written by the log export, including its `#` metadata header.
+ */
+const parseExportedDelimited = (lines: string[], name: string): ReplayData => {
+    const warnings: string[] = [];
+    const comments = lines.filter(line => line.startsWith('#')).map(line => line.slice(1).trim());
+    const rows = lines.filter(line => !line.startsWith('#'));
+    const separator = rows[0].includes('\t') ? '\t' : ',';
+    const header = splitDelimitedRow(rows[0], separator);
+
+    // Scale lines follow the "scale, id, ..." comment; the name may itself contain ", ".
+    // Files from before units lack the last two fields, and before the geometry model one more.
+    const scaleHeaderIndex = comments.findIndex(line => line.startsWith('scale, id,'));
+    const scaleHeader = comments[scaleHeaderIndex] ?? '';
+    const fieldCount = scaleHeader.includes('unit') ? 8 : scaleHeader.includes('geometry') ? 6 : 5;
+    const scaleConfig = scaleHeaderIndex < 0 ? null : parseReplayScaleConfig(comments.slice(scaleHeaderIndex + 1).map(line => {
+        const parts = line.split(', ');
+        const [id, category, tareValue, model, coefficients, geometryText, unit, precision] = parts.slice(-fieldCount);
+        const [angle, weight, x, y] = geometryText ? geometryText.split(' ').map(Number) : [];
+        // Left to the validation: missing fields become undefined and fail or take their defaults there.
+        return {
+            id: Number(id),
+            name: parts.slice(0, -fieldCount).join(', '),
+            category,
+            tareValue: Number(tareValue),
+            calibration: { model, coefficients: coefficients?.split(' ').map(Number) },
+            geometry: geometryText ? { angle, weight, x, y } : undefined,
+            unit: unit || undefined,
+            precision: precision ? Number(precision) : undefined,
+        };
+    }), warnings);
+
+    const timestampColumn = header.indexOf('Timestamp');
+    const elapsedColumn = header.indexOf('Elapsed_s');
+    let valueColumns = header.map((column, i) => ({ column, i })).filter(({ column }) => column.endsWith('_Raw')).map(({ i }) => i);
+    if (valueColumns.length === 0) {
+        valueColumns = header
+            .map((column, i) => ({ column, i }))
+            .filter(({ column }) => !['Timestamp', 'Elapsed_s', 'X_Total', 'Y_Total'].includes(column) && !column.endsWith('_Unfiltered'))
+            .map(({ i }) => i);
+        warnings.push(PROCESSED_ONLY_WARNING);
+    }
+
+    let startedAt: number | null = null;
+    const samples = rows.slice(1).map((row, rowIndex) => {
+        const fields = splitDelimitedRow(row, separator);
+        const timestamp = timestampColumn >= 0 ? Date.parse(fields[timestampColumn]) : NaN;
+        if (startedAt === null) startedAt = isNaN(timestamp) ? Date.now() : timestamp;
+        const time = elapsedColumn >= 0 ? parseNumber(fields[elapsedColumn] ?? '') * 1000
+            : !isNaN(timestamp) ? timestamp - startedAt
+            : rowIndex * (1000 / DEFAULT_CAPTURE_RATE_HZ);
+        return { time, rawValues: valueColumns.map(i => parseNumber(fields[i] ?? '')) };
+    });
+
+    return { name, startedAt: startedAt ?? Date.now(), samples, scaleConfig, warnings };
+};
+
+/**
+ * Reads a raw serial capture through the line protocol. Captures carry no
+ * timing, so samples are spaced at the given nominal rate.
+ */
+const parseSerialCapture = (lines: string[], name: string, protocol: ProtocolConfig, sampleRateHz: number): ReplayData => {
+    const samples: ReplaySample[] = [];
+    let rejected = 0;
+    lines.forEach(line => {
+        const result = parseLine(line, protocol);
+        if ('values' in result) {
+            samples.push({ time: samples.length * (1000 / sampleRateHz), rawValues: result.values });
+        } else {
+            rejected++;
+        }
+    });
+    const warnings = rejected > 0 ? [`${rejected} of ${lines.length} lines were rejected by the line protocol.`] : [];
+    return { name, startedAt: Date.now(), samples, scaleConfig: null, warnings };
+};
+
+/**
+ * Detects the kind of data file and reads it into replayable samples.
+ * @throws Error if the file holds no usable samples.
+ */
+export const parseReplayFile = (text: string, name: string, protocol: ProtocolConfig, sampleRateHz: number): ReplayData => {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0) throw new Error('The file is empty.');
+
+    let data: ReplayData;
+    const firstRow = lines.find(line => !line.startsWith('#')) ?? '';
+    if (lines[0].startsWith('{"metadata"') || /^\{.*"(raw|processed)"/.test(lines[0])) {
+        data = parseExportedJsonl(lines, name);
+    } else if (lines[0].startsWith('#') || /(^|[,\t])(Timestamp|Elapsed_s|X_Total)([,\t]|$)/.test(firstRow)) {
+        data = parseExportedDelimited(lines, name);
+    } else {
+        data = parseSerialCapture(lines, name, protocol, sampleRateHz);
+    }
+
+    data.samples = data.samples.filter(sample => isFinite(sample.time));
+    if (data.samples.length === 0) throw new Error('The file contains no readable samples.');
+    return data;
+};
+
+export const sessionToReplayData = (session: RecordingSession, entries: LogEntry[]): ReplayData => {
+    const startedAt = entries[0]?.timestamp ?? session.startedAt;
+    return {
+        name: session.name,
+        startedAt,
+        samples: entries.map(entry => ({ time: entry.timestamp - startedAt, rawValues: entry.rawValues })),
+        scaleConfig: session.scaleConfig,
+        warnings: [],
+    };
+};
+
+/**
+ * Index of the first sample later than `time` (binary search; samples are time-ordered).
+ */
+export const findReplayIndex = (samples: ReplaySample[], time: number): number => {
+    let low = 0;
+    let high = samples.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (samples[mid].time <= time) low = mid + 1;
+        else high = mid;
+    }
+    return low;
+};
@@ -0,0 +1,68 @@
+import type { CalibrationResult } from './types';
+
+/**
+ * Calculates linear regression for a set of data points.
+ * @param points - Array of { x: knownWeight, y: measuredValue }
+ * @returns { slope, rSquared }
+ */
+const calculateLinearRegression = (points: { x: number, y: number }[]): CalibrationResult => {
+    if (points.length < 2) {
+        return { slope: 1, rSquared: 0 };
+    }
+
+    let sumX = 0, sumY = 0, sumXY = 0, sumX2 = 0, sumY2 = 0;
+    const n = points.length;
+
+    points.forEach(({ x, y }) => {
+        sumX += x;
+        sumY += y;
+        sumXY += x * y;
+        sumX2 += x * x;
+        sumY2 += y * y;
+    });
+
+    const numeratorSlope = n * sumXY - sumX * sumY;
+    const denominatorSlope = n * sumX2 - sumX * sumX;
+
+    if (denominatorSlope === 0) {
+        return { slope: 1, rSquared: 0 }; // Avoid division by zero
+    }
+    const slope = numeratorSlope / denominatorSlope;
+    
+    const numeratorR = (n * sumXY - sumX * sumY);
+    const denominatorR = Math.sqrt((n * sumX2 - sumX * sumX) * (n * sumY2 - sumY * sumY));
+    
+    if (denominatorR === 0) {
+        return { slope, rSquared: 1 };
+    }
+
+    const r = numeratorR / denominatorR;
+    const rSquared = r * r;
+
+    return { slope, rSquared: isNaN(rSquared) ? 0 : rSquared };
+};
+
+/**
+ * Calculates the slope of a trendline for a time series of data.
+ * @param data - Array of numbers.
+ * @returns The slope of the trendline.
+ */
+export const calculateTrendlineSlope = (data: number[]): number => {
+    if (data.length < 2) return 0;
+    const points = data.map((y, i) => ({ x: i, y }));
+    const { slope } = calculateLinearRegression(points);
+    return isNaN(slope) ? 0 : slope;
+};
+
+export const calculateMean = (data: number[]): number =>
+    data.length === 0 ? 0 : data.reduce((sum, v) => sum + v, 0) / data.length;
+
+/**
+ * Calculates the sample standard deviation of a series.
+ */
+export const calculateStandardDeviation = (data: number[]): number => {
+    if (data.length < 2) return 0;
+    const mean = calculateMean(data);
+    const variance = data.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (data.length - 1);
+    return Math.sqrt(variance);
+};
@@ -0,0 +1,632 @@
+import type { PROFILE_FILE_FORMAT } from './constants';
+
+// FIX: Add Web Serial API type definitions to resolve TypeScript errors.
+// These are typically provided by `@types/w3c-web-serial`, but are added here
+// for self-containment as the project does not include them.
+declare global {
+    interface SerialOptions {
+        baudRate: number;
+        dataBits?: 7 | 8;
+        stopBits?: 1 | 2;
+        parity?: 'none' | 'even' | 'odd';
+        bufferSize?: number;
+        flowControl?: 'none' | 'hardware';
+    }
+
+    interface SerialPortInfo {
+        usbVendorId?: number;
+        usbProductId?: number;
+    }
+
+    interface SerialPort extends EventTarget {
+        open(options: SerialOptions): Promise<void>;
+        close(): Promise<void>;
+        getInfo(): SerialPortInfo;
+        readonly readable: ReadableStream<Uint8Array> | null;
+        readonly writable: WritableStream<Uint8Array> | null;
+    }
+
+    interface Navigator {
+        serial: EventTarget & {
+            requestPort(options?: any): Promise<SerialPort>;
+            getPorts(): Promise<SerialPort[]>;
+        };
+    }
+}
+export interface Scale {
+    id: number;
+    name: string;
+    rawValue: number;
+    /** Raw value after the filter chain; equals `rawValue` without filters. */
+    filteredValue: number;
+    tareValue: number;
+    /** Earlier tare changes, oldest first, so they can be reviewed and undone. */
+    tareHistory: TareChange[];
+    zeroTracking: ZeroTracking;
+    calibration: Calibration;
+    calibrationHistory: CalibrationRecord[];
+    /**
+     * How the cell contributes to the plate resultant: along an axis, along
+     * `geometry.angle` ('vector'), normal to the plate ('z'), or not at all.
+     */
+    category: 'none' | 'x' | '-x' | 'y' | '-y' | 'vector' | 'z';
+    geometry: ScaleGeometry;
+    /** Conditioning applied to raw readings, in order, before tare and calibration. */
+    filters: FilterStage[];
+    limits: ScaleLimits;
+    /** Unit of the processed value, i.e. what the calibration produces. */
+    unit: Unit;
+    /** Decimal places the processed value is shown and exported with. */
+    precision: number;
+}
+
+export type Unit = 'g' | 'kg' | 'N' | 'lbf' | 'mV/V' | 'counts';
+
+export type TareSource = 'instant' | 'average' | 'manual' | 'zeroTracking' | 'undo';
+
+export interface TareChange {
+    timestamp: number;
+    previous: number;
+    value: number;
+    source: TareSource;
+}
+
+/** Automatic zero tracking: slowly re-tares a channel that is stable near zero. */
+export interface ZeroTracking {
+    enabled: boolean;
+    /** Largest |processed value| still treated as zero drift, in the scale's unit. */
+    band: number;
+}
+
+/** Alarm limits on a processed value; null turns a check off. */
+export interface ChannelLimits {
+    upper: number | null;
+    lower: number | null;
+    /** Largest allowed |rate of change|, in units per second. */
+    maxRate: number | null;
+}
+
+export interface ScaleLimits extends ChannelLimits {
+    /** Rated cell capacity in processed units, for overload warnings. */
+    capacity: number | null;
+}
+
+export interface AlarmSettings {
+    totalX: ChannelLimits;
+    totalY: ChannelLimits;
+    /** Share of a cell's capacity, in percent, at which it counts as overloaded. */
+    overloadPercent: number;
+    audible: boolean;
+}
+
+export type AlarmKind = 'upper' | 'lower' | 'rate' | 'overload';
+
+export type AlarmEvent = {
+    timestamp: number;
+    /** Channel id as used by the charts: 'totalX', 'totalY' or 'scale-<id>'. */
+    channel: string;
+    channelName: string;
+    kind: AlarmKind;
+    state: 'raised' | 'cleared';
+    /** Value (or rate, for 'rate') when the alarm changed state. */
+    value: number;
+    limit: number;
+};
+
+/** Active alarm kinds per channel id. */
+export type ActiveAlarms = Record<string, AlarmKind[]>;
+
+export type FilterStage =
+    | { type: 'movingAverage'; windowSize: number }
+    | { type: 'median'; windowSize: number }
+    /** Exponential smoothing with the given time constant in seconds. */
+    | { type: 'lowPass'; timeConstant: number }
+    /** Mains hum rejection; passes readings through until the sample rate is known. */
+    | { type: 'notch'; frequency: number };
+
+/** Running state of one filter stage. */
+export type FilterState = {
+    /** Recent inputs, for the windowed filters. */
+    window: number[];
+    previous: number | null;
+    /** Notch history: x[n-1], x[n-2], y[n-1], y[n-2]. */
+    biquad: number[] | null;
+};
+
+export interface ScaleGeometry {
+    /** Force direction for the 'vector' category, degrees counter-clockwise from +X. */
+    angle: number;
+    /** Factor applied to the processed value before summing, e.g. a lever ratio. */
+    weight: number;
+    /** Cell position in plate coordinates. */
+    x: number;
+    y: number;
+}
+
+export interface PlateConfig {
+    /** Point moments are taken about, in plate coordinates. */
+    referenceX: number;
+    referenceY: number;
+    positionUnit: string;
+    /**
+     * Unit of the totals, resultant and moment. X and Y share it because they
+     * are components of one force.
+     */
+    forceUnit: Unit;
+    forcePrecision: number;
+}
+
+/**
+ * Plate resultant. In-plane cells give Fx/Fy and the moment about the
+ * reference point; normal ('z') cells give Fz and the center of pressure.
+ */
+export type ForceResultant = {
+    fx: number;
+    fy: number;
+    magnitude: number;
+    /** Direction of the in-plane resultant, degrees counter-clockwise from +X. */
+    angle: number;
+    moment: number;
+    fz: number;
+    /** Null without normal cells or while their total is zero. */
+    centerOfPressure: { x: number; y: number } | null;
+};
+
+export type CalibrationModel = 'slope' | 'linear' | 'poly2' | 'poly3';
+
+export interface Calibration {
+    model: CalibrationModel;
+    /** Polynomial coefficients in ascending powers of the tared raw value. */
+    coefficients: number[];
+}
+
+export interface CalibrationPoint {
+    knownWeight: number;
+    /** Mean raw value over the captured samples. */
+    rawValue: number;
+    stdDev: number;
+    sampleCount: number;
+}
+
+export interface CalibrationRecord {
+    id: string;
+    /** ISO timestamp of when the calibration was applied. */
+    appliedAt: string;
+    calibration: Calibration;
+    points: CalibrationPoint[];
+    referenceWeights: number[];
+    /** Tare in effect when the points were taken; the fit is against values tared by it. */
+    tareValue: number;
+    rSquared: number;
+    operator: string;
+    note: string;
+    /** Unit of the known weights. Missing in records made before units. */
+    unit?: Unit;
+}
+
+export type CaptureSettings = {
+    /** Number of recent samples the stability check looks at. */
+    windowSize: number;
+    /** Maximum trendline slope, in raw units per sample. */
+    maxSlope: number;
+    /** Maximum standard deviation, in raw units. */
+    maxStdDev: number;
+    mode: 'samples' | 'seconds';
+    /** Samples to average, or seconds to average over, depending on mode. */
+    amount: number;
+};
+
+export type CaptureState =
+    | { phase: 'idle' }
+    | { phase: 'waiting'; knownWeight: number }
+    | { phase: 'averaging'; knownWeight: number; samples: number[]; startedAt: number };
+
+export interface LogEntry {
+    /** Milliseconds since the Unix epoch, with sub-millisecond resolution. */
+    timestamp: number;
+    totalX: number;
+    totalY: number;
+    processedValues: number[];
+    rawValues: number[];
+    /** Processed values computed from the unfiltered readings. Missing in sessions recorded before filtering. */
+    unfilteredValues?: number[];
+}
+
+/** A labelled point in time on the log, e.g. where a load was applied. */
+export interface LogMarker {
+    id: string;
+    timestamp: number;
+    label: string;
+}
+
+/** Part of the log from one marker (or the start) up to the next. */
+export type LogSegment = {
+    label: string;
+    start: number;
+    end: number;
+    entries: LogEntry[];
+};
+
+/**
+ * Fixed-capacity store of recent samples in typed arrays. Per-scale values
+ * are row-major: slot * channelCount + channel. Samples are numbered from the
+ * first one ever written; sample n lives in slot n % capacity.
+ */
+export type SampleRing = {
+    capacity: number;
+    channelCount: number;
+    timestamps: Float64Array;
+    totalX: Float64Array;
+    totalY: Float64Array;
+    processed: Float64Array;
+    raw: Float64Array;
+    unfiltered: Float64Array;
+    /** Number of the oldest sample this ring was started at; earlier ones are gone. */
+    start: number;
+    /** Number of the next sample to be written. */
+    written: number;
+};
+
+export interface RecordingSession {
+    id: string;
+    name: string;
+    startedAt: number;
+    endedAt: number | null;
+    /** 'interrupted' marks a session whose page was closed before Stop was pressed. */
+    status: 'recording' | 'complete' | 'interrupted';
+    sampleCount: number;
+    scaleConfig: ScaleConfig[];
+    protocol: ProtocolConfig;
+    /** Alarms raised and cleared while recording. Missing in older sessions. */
+    alarmEvents?: AlarmEvent[];
+    /** Plate configuration the totals were resolved with. Missing in older sessions. */
+    plate?: PlateConfig;
+    /** Markers added while recording. Missing in older sessions. */
+    markers?: LogMarker[];
+}
+
+export type ActiveRecording = {
+    session: RecordingSession;
+    pending: LogEntry[];
+    nextChunkIndex: number;
+    /** Serialises IndexedDB writes so chunks and metadata land in order. */
+    writeQueue: Promise<void>;
+};
+
+export type CalibrationResult = {
+    slope: number;
+    rSquared: number;
+};
+
+export type CalibrationFit = {
+    coefficients: number[];
+    rSquared: number;
+    /** Fitted minus known weight, per point. */
+    residuals: number[];
+};
+
+export type LineFormat = 'delimited' | 'keyValue' | 'json';
+
+/**
+ * How lines from several devices become samples. `latest` emits on every line,
+ * holding the other devices' channels at their last value; `waitForAll` emits
+ * once every device has sent a line.
+ */
+export type AlignmentPolicy = 'latest' | 'waitForAll';
+
+export interface ProtocolConfig {
+    format: LineFormat;
+    delimiter: string;
+    keyValueSeparator: string;
+    /** Per scale, the field to read: a 1-based column number (delimited, JSON arrays) or a key name. */
+    columnMap: string[];
+    /** Names of the serial devices the scales are spread over. */
+    devices: string[];
+    /** Per scale, the index into `devices` its field comes from. */
+    deviceMap: number[];
+    alignment: AlignmentPolicy;
+}
+
+export type LineStats = {
+    accepted: number;
+    rejected: number;
+    lastError: string | null;
+    lastRejectedLine: string | null;
+};
+
+export type ParseResult = { values: number[] } | { error: string };
+
+export interface DeviceCommand {
+    id: string;
+    label: string;
+    /** Text sent to the device; `{value}` is replaced by the argument entered in the console. */
+    template: string;
+    /** Regular expression identifying the reply. Empty if the device does not reply. */
+    responsePattern: string;
+    timeoutMs: number;
+}
+
+export interface DeviceCommandConfig {
+    lineTerminator: string;
+    commands: DeviceCommand[];
+}
+
+export type ConsoleEntry = {
+    id: number;
+    time: number;
+    kind: 'sent' | 'response' | 'timeout' | 'error';
+    text: string;
+};
+
+export type PendingCommand = {
+    device: number;
+    pattern: RegExp;
+    resolve: (line: string | null) => void;
+    timeoutId: ReturnType<typeof setTimeout>;
+};
+
+export type ScaleConfig = Omit<Scale, 'rawValue' | 'filteredValue'>;
+
+export interface ConfigProfile {
+    name: string;
+    scales: ScaleConfig[];
+    protocol: ProtocolConfig;
+    commands: DeviceCommandConfig;
+    plate: PlateConfig;
+    alarms: AlarmSettings;
+}
+
+export type ProfileStore = {
+    activeProfileName: string;
+    profiles: ConfigProfile[];
+};
+
+export interface ProfileFile {
+    format: typeof PROFILE_FILE_FORMAT;
+    schemaVersion: number;
+    exportedAt: string;
+    profile: ConfigProfile;
+}
+
+export type ExportFormat = 'csv' | 'tsv' | 'jsonl';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    gzip: boolean;
+    /** Decimal places for raw columns, and for every column unless `channelPrecision` is set. */
+    precision: number;
+    /** Use each scale's and the totals' own precision for processed columns. */
+    channelPrecision: boolean;
+    includeMetadata: boolean;
+    columns: {
+        timestamp: boolean;
+        elapsed: boolean;
+        totals: boolean;
+        processed: boolean;
+        unfiltered: boolean;
+        raw: boolean;
+    };
+    /** Scales to include; null means all of them. */
+    scaleIds: number[] | null;
+}
+
+/** What an export is built from: a set of samples plus the configuration they were taken with. */
+export type ExportSource = {
+    name: string;
+    entries: LogEntry[];
+    scales: ScaleConfig[];
+    alarmEvents: AlarmEvent[];
+    markers: LogMarker[];
+    plate: PlateConfig;
+};
+
+export type ReplaySample = {
+    /** Milliseconds from the start of the replay. */
+    time: number;
+    rawValues: number[];
+};
+
+export type ReplayData = {
+    name: string;
+    /** Wall-clock time of the first sample, used to timestamp replayed log entries. */
+    startedAt: number;
+    samples: ReplaySample[];
+    /** Scale configuration the data was recorded with, if the source carries it. */
+    scaleConfig: ScaleConfig[] | null;
+    warnings: string[];
+};
+
+export type ReplayStatus = {
+    name: string;
+    sampleCount: number;
+    duration: number;
+    position: number;
+    playing: boolean;
+    speed: number;
+    loop: boolean;
+    hasRecordedConfig: boolean;
+    warnings: string[];
+};
+
+export interface SimulatorChannel {
+    /** Raw reading at zero load. */
+    baseline: number;
+    /** Raw units per unit of load. */
+    gain: number;
+    /** Standard deviation of Gaussian noise, in raw units. */
+    noise: number;
+    /** Linear drift in raw units per second. */
+    drift: number;
+    /** Slow temperature-like oscillation: amplitude in raw units, period in seconds. */
+    thermalAmplitude: number;
+    thermalPeriod: number;
+    /** Position on the fixture, used to share a moving load between cells. */
+    x: number;
+    y: number;
+}
+
+export type SimulatorSegment =
+    | { type: 'step'; duration: number; load: number; channels?: number[] }
+    | { type: 'ramp'; duration: number; from: number; to: number; channels?: number[] }
+    | { type: 'sine'; duration: number; offset: number; amplitude: number; period: number; channels?: number[] }
+    | { type: 'move'; duration: number; load: number; from: [number, number]; to: [number, number] };
+
+export interface SimulatorConfig {
+    sampleRateHz: number;
+    /** Settings for channels without an entry in `channels`. */
+    defaultChannel: SimulatorChannel;
+    /** Per-channel overrides, by channel position. */
+    channels: Partial<SimulatorChannel>[];
+    /** Probability per sample of the device going silent, and for how long (seconds). */
+    dropoutRate: number;
+    dropoutDuration: number;
+    /** Probability per line of emitting a corrupted line. */
+    malformedRate: number;
+    /** Load profile; an empty list means no load. */
+    segments: SimulatorSegment[];
+    loop: boolean;
+}
+
+export type SimulatorState = {
+    /** Simulated seconds since start. */
+    time: number;
+    sequence: number;
+    dropoutUntil: number;
+};
+
+export type SerialStatus = {
+    text: string;
+    type: 'idle' | 'connected' | 'connecting' | 'reconnecting' | 'error';
+};
+
+export interface SerialSettings {
+    baudRate: number;
+    dataBits: 7 | 8;
+    stopBits: 1 | 2;
+    parity: 'none' | 'even' | 'odd';
+    flowControl: 'none' | 'hardware';
+    bufferSize: number;
+    /** Retry with backoff when the device disappears. */
+    autoReconnect: boolean;
+    /** Reopen the last used port on page load, without the port picker. */
+    reconnectOnLoad: boolean;
+}
+
+/**
+ * Connection state of one device slot. A slot reads either a serial port or a
+ * WebSocket bridge; both are null while disconnected.
+ */
+export type DeviceLink = {
+    port: SerialPort | null;
+    /** The port the slot last opened, tried first when reconnecting. */
+    lastPort: SerialPort | null;
+    reader: ReadableStreamDefaultReader<Uint8Array> | null;
+    socket: WebSocket | null;
+    /** Set while the slot uses the network source, so a reconnect knows where to go. */
+    networkUrl: string | null;
+    isClosing: boolean;
+    /** Stops a scheduled reconnect, set while the device is lost. */
+    cancelReconnect: (() => void) | null;
+};
+
+/** Identifies a previously granted port across page loads. */
+export type RememberedPort = SerialPortInfo & {
+    /** Cleared on a manual disconnect so the next load doesn't reconnect. */
+    autoConnect: boolean;
+};
+
+export type ChartRange = { min: number; max: number };
+
+export interface StatisticsSettings {
+    /** Trailing window the statistics cover, in seconds. */
+    windowSeconds: number;
+    /** A channel is stable while both its standard deviation and |slope| stay within these. */
+    maxStdDev: number;
+    maxSlopePerSecond: number;
+    /** Whether the scale and total statistics use filtered or unfiltered values. */
+    source: 'filtered' | 'unfiltered';
+}
+
+export type ChannelStatistics = {
+    count: number;
+    mean: number;
+    stdDev: number;
+    min: number;
+    max: number;
+    peakToPeak: number;
+    /** RMS of the residuals around the linear trend, i.e. noise with drift removed. */
+    rmsNoise: number;
+    slopePerSecond: number;
+    /** Window mean minus the drift baseline's mean; null without a baseline. */
+    drift: number | null;
+    /** Null while the window holds too few samples to judge. */
+    isStable: boolean | null;
+};
+
+export type LogStatistics = {
+    scales: ChannelStatistics[];
+    totalX: ChannelStatistics;
+    totalY: ChannelStatistics;
+};
+
+/** Channel means drift is measured from; scale means are keyed by scale id. */
+export type DriftBaseline = {
+    /** Timestamp of the first reading averaged. */
+    capturedAt: number;
+    totalX: number;
+    totalY: number;
+    scales: Record<number, number>;
+};
+
+export type LinkStats = {
+    bytesReceived: number;
+    linesPerSecond: number;
+    lastValidLineAt: number | null;
+    /** When these stats were taken, so "time since last line" can be shown. */
+    updatedAt: number;
+};
+
+export type SequenceStatistic = 'value' | 'mean' | 'stdDev' | 'min' | 'max' | 'peakToPeak' | 'slopePerSecond';
+
+/**
+ * One step of a test sequence. Channels are named as for alarms: 'totalX',
+ * 'totalY' or 'scale-<id>'. Durations are in seconds.
+ */
+export type SequenceStep =
+    | { type: 'prompt'; message: string }
+    | { type: 'waitStable'; channel: string; timeout: number }
+    /** Tares the listed scales, or all of them. */
+    | { type: 'tare'; scaleIds?: number[] }
+    | { type: 'record'; duration: number }
+    /** Checks a statistic of the latest recording ('value' is the live reading) against a range. */
+    | { type: 'assert'; channel: string; statistic: SequenceStatistic; min?: number; max?: number };
+
+export interface TestSequence {
+    name: string;
+    steps: SequenceStep[];
+}
+
+export interface SequenceStepResult {
+    step: SequenceStep;
+    status: 'passed' | 'failed' | 'skipped';
+    detail: string;
+    measured: number | null;
+    unit: Unit | null;
+    finishedAt: number;
+}
+
+export interface SequenceRun {
+    id: string;
+    sequenceName: string;
+    operator: string;
+    startedAt: number;
+    endedAt: number;
+    result: 'passed' | 'failed' | 'aborted';
+    steps: SequenceStepResult[];
+}
+
+export type ActiveSequence = {
+    run: SequenceRun;
+    stepIndex: number;
+    step: SequenceStep;
+};
@@ -0,0 +1,173 @@
+import type {
+    Scale, Unit, TareChange, ZeroTracking, ScaleLimits, FilterStage, ScaleGeometry, Calibration, CalibrationRecord, ScaleConfig,
+} from './types';
+import {
+    DEFAULT_SCALE_GEOMETRY, UNITS, DEFAULT_PRECISION, MAX_PRECISION, DEFAULT_SCALE_LIMITS, TARE_SOURCE_LABELS, DEFAULT_ZERO_TRACKING,
+    FILTER_TYPES, MAX_FILTER_WINDOW, CALIBRATION_MODELS, IDENTITY_CALIBRATION,
+} from './constants';
+
+const SCALE_CATEGORIES: Scale['category'][] = ['none', 'x', '-x', 'y', '-y', 'vector', 'z'];
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number =>
+    typeof value === 'number' && isFinite(value);
+
+/** Whether `key` is one of the object's own keys, e.g. a known unit or model name. */
+export const isOwnKey = <T extends object>(object: T, key: unknown): key is keyof T =>
+    typeof key === 'string' && Object.hasOwn(object, key);
+
+/**
+ * Validates a stored calibration. Returns null and records an error if invalid.
+ */
+const parseCalibration = (data: unknown, path: string, errors: string[]): Calibration | null => {
+    if (!isPlainObject(data) || !isOwnKey(CALIBRATION_MODELS, data.model)) {
+        errors.push(`${path}.model must be one of ${Object.keys(CALIBRATION_MODELS).join(', ')}`);
+        return null;
+    }
+    const model = data.model;
+    const expectedLength = CALIBRATION_MODELS[model].degree + 1;
+    if (!Array.isArray(data.coefficients) || data.coefficients.length !== expectedLength || !data.coefficients.every(isFiniteNumber)) {
+        errors.push(`${path}.coefficients must be ${expectedLength} numbers for model "${model}"`);
+        return null;
+    }
+    return { model, coefficients: data.coefficients as number[] };
+};
+
+const isValidCalibrationPoint = (point: unknown): boolean =>
+    isPlainObject(point) && ['knownWeight', 'rawValue', 'stdDev', 'sampleCount'].every(key => isFiniteNumber(point[key]));
+
+/**
+ * Validates a stored filter chain. Returns null and records an error if invalid.
+ */
+const parseFilterStages = (data: unknown, path: string, errors: string[]): FilterStage[] | null => {
+    if (!Array.isArray(data)) {
+        errors.push(`${path} must be an array`);
+        return null;
+    }
+    const errorCount = errors.length;
+    data.forEach((stage: unknown, i: number) => {
+        const stagePath = `${path}[${i}]`;
+        if (!isPlainObject(stage) || !isOwnKey(FILTER_TYPES, stage.type)) {
+            errors.push(`${stagePath}.type must be one of ${Object.keys(FILTER_TYPES).join(', ')}`);
+        } else if ((stage.type === 'movingAverage' || stage.type === 'median')
+            && !(Number.isInteger(stage.windowSize) && (stage.windowSize as number) >= 1 && (stage.windowSize as number) <= MAX_FILTER_WINDOW)) {
+            errors.push(`${stagePath}.windowSize must be an integer from 1 to ${MAX_FILTER_WINDOW}`);
+        } else if (stage.type === 'lowPass' && !(isFiniteNumber(stage.timeConstant) && stage.timeConstant >= 0)) {
+            errors.push(`${stagePath}.timeConstant must be a non-negative number`);
+        } else if (stage.type === 'notch' && !(isFiniteNumber(stage.frequency) && stage.frequency > 0)) {
+            errors.push(`${stagePath}.frequency must be a positive number`);
+        }
+    });
+    return errors.length > errorCount ? null : data as FilterStage[];
+};
+
+export const isValidPrecision = (value: unknown): boolean =>
+    Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_PRECISION;
+
+/**
+ * Unit for a scale stored before units existed. An uncalibrated scale reads
+ * raw counts; a calibrated one gets kg, which the user can relabel.
+ */
+export const guessLegacyUnit = (calibration: Calibration): Unit =>
+    calibration.model === 'slope' && calibration.coefficients[1] === 1 ? 'counts' : 'kg';
+
+/**
+ * Validates stored alarm limits: each given key must be a number or null.
+ */
+export const isValidLimits = (data: unknown, keys: string[]): boolean =>
+    isPlainObject(data) && keys.every(key => data[key] === null || isFiniteNumber(data[key]));
+
+/**
+ * Validates one scale entry of a profile and migrates older fields.
+ * Problems are appended to `errors` prefixed with their path.
+ */
+export const parseScaleConfig = (data: unknown, path: string, errors: string[]): ScaleConfig | null => {
+    if (!isPlainObject(data)) {
+        errors.push(`${path} must be an object`);
+        return null;
+    }
+    const errorCount = errors.length;
+    if (!Number.isInteger(data.id)) errors.push(`${path}.id must be an integer`);
+    if (typeof data.name !== 'string') errors.push(`${path}.name must be a string`);
+    if (data.tareValue !== undefined && !isFiniteNumber(data.tareValue)) errors.push(`${path}.tareValue must be a number`);
+    const tareHistory = data.tareHistory ?? [];
+    if (!Array.isArray(tareHistory) || !tareHistory.every((change: unknown) => isPlainObject(change)
+        && ['timestamp', 'previous', 'value'].every(key => isFiniteNumber(change[key])) && isOwnKey(TARE_SOURCE_LABELS, change.source))) {
+        errors.push(`${path}.tareHistory must be an array of changes with numeric timestamp, previous and value, and a known source`);
+    }
+    if (data.zeroTracking !== undefined && (!isPlainObject(data.zeroTracking) || typeof data.zeroTracking.enabled !== 'boolean'
+        || !isFiniteNumber(data.zeroTracking.band) || data.zeroTracking.band < 0)) {
+        errors.push(`${path}.zeroTracking must have enabled as true or false and a non-negative band`);
+    }
+    if (data.category !== undefined && !SCALE_CATEGORIES.includes(data.category as Scale['category'])) {
+        errors.push(`${path}.category must be one of ${SCALE_CATEGORIES.join(', ')}`);
+    }
+    if (data.geometry !== undefined && (!isPlainObject(data.geometry) || !['angle', 'weight', 'x', 'y'].every(key => isFiniteNumber(data.geometry[key])))) {
+        errors.push(`${path}.geometry must have numeric angle, weight, x and y`);
+    }
+
+    let calibration: Calibration | null = IDENTITY_CALIBRATION;
+    if (data.calibration !== undefined) {
+        calibration = parseCalibration(data.calibration, `${path}.calibration`, errors);
+    } else if (data.calibrationSlope !== undefined) {
+        // Configs saved before calibration models only carry a slope.
+        if (isFiniteNumber(data.calibrationSlope)) {
+            calibration = { model: 'slope', coefficients: [0, data.calibrationSlope] };
+        } else {
+            errors.push(`${path}.calibrationSlope must be a number`);
+        }
+    }
+
+    const history = data.calibrationHistory ?? [];
+    if (!Array.isArray(history)) {
+        errors.push(`${path}.calibrationHistory must be an array`);
+    } else {
+        history.forEach((record: unknown, i: number) => {
+            const recordPath = `${path}.calibrationHistory[${i}]`;
+            if (!isPlainObject(record) || typeof record.id !== 'string' || typeof record.appliedAt !== 'string') {
+                errors.push(`${recordPath} must have an id and appliedAt date`);
+            } else {
+                parseCalibration(record.calibration, `${recordPath}.calibration`, errors);
+                if (!Array.isArray(record.points) || !record.points.every(isValidCalibrationPoint)) {
+                    errors.push(`${recordPath}.points must be an array of points with numeric knownWeight, rawValue, stdDev and sampleCount`);
+                }
+                if (!Array.isArray(record.referenceWeights) || !record.referenceWeights.every(isFiniteNumber)) {
+                    errors.push(`${recordPath}.referenceWeights must be an array of numbers`);
+                }
+                if (!isFiniteNumber(record.tareValue)) errors.push(`${recordPath}.tareValue must be a number`);
+                if (!isFiniteNumber(record.rSquared)) errors.push(`${recordPath}.rSquared must be a number`);
+                if (typeof record.operator !== 'string') errors.push(`${recordPath}.operator must be a string`);
+                if (typeof record.note !== 'string') errors.push(`${recordPath}.note must be a string`);
+                if (record.unit !== undefined && !isOwnKey(UNITS, record.unit)) errors.push(`${recordPath}.unit must be one of ${Object.keys(UNITS).join(', ')}`);
+            }
+        });
+    }
+
+    const filters = data.filters === undefined ? [] : parseFilterStages(data.filters, `${path}.filters`, errors);
+    if (data.limits !== undefined && !isValidLimits(data.limits, Object.keys(DEFAULT_SCALE_LIMITS))) {
+        errors.push(`${path}.limits must have upper, lower, maxRate and capacity as numbers or null`);
+    }
+    if (data.unit !== undefined && !isOwnKey(UNITS, data.unit)) errors.push(`${path}.unit must be one of ${Object.keys(UNITS).join(', ')}`);
+    if (data.precision !== undefined && !isValidPrecision(data.precision)) errors.push(`${path}.precision must be an integer from 0 to ${MAX_PRECISION}`);
+
+    if (errors.length > errorCount || !calibration || !filters) return null;
+    // Everything below was checked above.
+    return {
+        id: data.id as number,
+        name: data.name as string,
+        tareValue: (data.tareValue as number | undefined) ?? 0,
+        tareHistory: tareHistory as TareChange[],
+        zeroTracking: (data.zeroTracking as ZeroTracking | undefined) ?? DEFAULT_ZERO_TRACKING,
+        calibration,
+        // Records made before units were fitted in the unit such a scale was given when units arrived.
+        calibrationHistory: (history as CalibrationRecord[]).map(record => record.unit ? record : { ...record, unit: guessLegacyUnit(record.calibration) }),
+        category: (data.category as Scale['category'] | undefined) ?? 'none',
+        geometry: (data.geometry as ScaleGeometry | undefined) ?? DEFAULT_SCALE_GEOMETRY,
+        filters,
+        limits: (data.limits as ScaleLimits | undefined) ?? DEFAULT_SCALE_LIMITS,
+        unit: (data.unit as Unit | undefined) ?? guessLegacyUnit(calibration),
+        precision: (data.precision as number | undefined) ?? DEFAULT_PRECISION,
+    };
+};